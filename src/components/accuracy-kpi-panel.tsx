@@ -0,0 +1,88 @@
+'use client';
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import type { InventoryAccuracyRow } from '@/lib/inventory-accuracy';
+
+type AccuracyKpiPanelProps = {
+  rows: InventoryAccuracyRow[];
+};
+
+const formatPercent = (value: number | '' | undefined): string =>
+  typeof value === 'number' ? `${value.toLocaleString('es', { maximumFractionDigits: 2 })} %` : '—';
+
+/** Inventory Record Accuracy overall, as KPI tiles, and per centro and storage location. */
+export function AccuracyKpiPanel({ rows }: AccuracyKpiPanelProps) {
+  // The overall row comes first.
+  const [total, ...detail] = rows;
+  const valued = rows.some(row => row['Exactitud en Valor (%)'] !== undefined);
+  const kpis = [
+    { label: 'Exactitud de registros', value: total?.['Exactitud de Registros (%)'], hint: `${total?.['Líneas Exactas'] ?? 0} de ${total?.['Líneas'] ?? 0} líneas exactas o dentro de tolerancia` },
+    { label: 'Exactitud en unidades', value: total?.['Exactitud en Unidades (%)'], hint: 'Diferencia absoluta sobre el stock SAP' },
+    ...(valued ? [{ label: 'Exactitud en valor', value: total?.['Exactitud en Valor (%)'], hint: 'Valor de la diferencia absoluta sobre el valor SAP' }] : []),
+  ];
+
+  return (
+    <Card className="lg:col-span-3">
+      <CardHeader>
+        <CardTitle>Exactitud del Inventario (IRA)</CardTitle>
+        <CardDescription>
+          Indicadores de exactitud de registros de inventario para todo el análisis, por centro y por almacén.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+          {kpis.map(kpi => (
+            <div key={kpi.label} className="rounded-lg border p-3">
+              <p className="text-sm text-muted-foreground">{kpi.label}</p>
+              <p className="text-2xl font-semibold">{formatPercent(kpi.value)}</p>
+              <p className="text-xs text-muted-foreground">{kpi.hint}</p>
+            </div>
+          ))}
+        </div>
+        <ScrollArea className="h-72">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Centro / Almacén</TableHead>
+                <TableHead className="text-right">Líneas</TableHead>
+                <TableHead className="text-right">Registros</TableHead>
+                <TableHead className="text-right">Unidades</TableHead>
+                {valued && <TableHead className="text-right">Valor</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {detail.length > 0 ? detail.map(row => (
+                <TableRow key={`${row.Centro}|${row['Almacén']}`} className={row['Almacén'] ? 'text-muted-foreground' : 'font-medium'}>
+                  <TableCell className={row['Almacén'] ? 'pl-8' : undefined}>{row['Almacén'] || row.Centro}</TableCell>
+                  <TableCell className="text-right">{row['Líneas']}</TableCell>
+                  <TableCell className="text-right">{formatPercent(row['Exactitud de Registros (%)'])}</TableCell>
+                  <TableCell className="text-right">{formatPercent(row['Exactitud en Unidades (%)'])}</TableCell>
+                  {valued && <TableCell className="text-right">{formatPercent(row['Exactitud en Valor (%)'])}</TableCell>}
+                </TableRow>
+              )) : (
+                <TableRow>
+                  <TableCell colSpan={valued ? 5 : 4} className="h-24 text-center">No hay datos</TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  );
+}
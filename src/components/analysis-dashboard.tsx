@@ -0,0 +1,166 @@
+'use client';
+
+import { useMemo } from 'react';
+import { Bar, BarChart, CartesianGrid, Cell, Pie, PieChart, XAxis, YAxis } from 'recharts';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import { DEFAULT_ANALYSIS_FILTERS, type AnalysisTableFilters } from '@/components/analysis-report-table';
+import { MOVEMENT_CATEGORY_LABELS } from '@/lib/movement-rules';
+import type { AnalysisResult, CentroQuantityRow } from '@/lib/reconcile';
+
+type AnalysisDashboardProps = {
+  result: AnalysisResult;
+  /** Replaces the results table filters with the selection made on a chart. */
+  onFilter: (filters: AnalysisTableFilters) => void;
+};
+
+const TOP_SKUS = 20;
+
+const centroChartConfig = {
+  value: { label: 'Diferencia absoluta' },
+} satisfies ChartConfig;
+
+const adjustmentChartConfig = {
+  inventario: { label: MOVEMENT_CATEGORY_LABELS.inventario, color: 'hsl(var(--chart-1))' },
+  merma: { label: MOVEMENT_CATEGORY_LABELS.merma, color: 'hsl(var(--chart-2))' },
+  vencimiento: { label: MOVEMENT_CATEGORY_LABELS.vencimiento, color: 'hsl(var(--chart-3))' },
+} satisfies ChartConfig;
+
+const topSkuChartConfig = {
+  value: { label: 'Diferencia absoluta' },
+  sobrante: { label: 'Sobrante', color: 'hsl(var(--chart-2))' },
+  faltante: { label: 'Faltante', color: 'hsl(var(--chart-1))' },
+} satisfies ChartConfig;
+
+// Adjustments of opposite sign in different centros should not cancel out in
+// the pie, so each centro contributes its absolute total.
+const absoluteTotal = (quantities: number[]) => quantities.reduce((sum, qty) => sum + Math.abs(qty), 0);
+const centroQuantities = (rows: CentroQuantityRow[]) => rows.map(row => row['Suma de Cantidad']);
+
+/** Charts of the differences and adjustments; clicking a chart filters the results table. */
+export function AnalysisDashboard({ result, onFilter }: AnalysisDashboardProps) {
+  const adjustmentData = useMemo(() => {
+    return ([
+      ['inventario', absoluteTotal(result.diferenciaReport.map(row => row['Ajuste Mensual (Dif. Inventario)']))],
+      ['merma', absoluteTotal(centroQuantities(result.mermaReport))],
+      ['vencimiento', absoluteTotal(centroQuantities(result.vencimientoReport))],
+    ] as const)
+      .map(([category, value]) => ({
+        category,
+        value,
+        fill: `var(--color-${category})`,
+      }))
+      .filter(item => item.value > 0);
+  }, [result]);
+
+  const topSkuData = useMemo(() => {
+    const bySku = new Map<string, number>();
+    result.analysisReport.forEach(row => bySku.set(row.SKU, (bySku.get(row.SKU) ?? 0) + row.Diferencia));
+    return Array.from(bySku.entries(), ([sku, difference]) => ({
+      sku,
+      value: Math.abs(difference),
+      fill: difference > 0 ? 'var(--color-sobrante)' : 'var(--color-faltante)',
+    }))
+      .filter(item => item.value > 0)
+      .sort((a, b) => b.value - a.value)
+      .slice(0, TOP_SKUS);
+  }, [result]);
+
+  const emptyChart = (message: string) => (
+    <p className="flex h-72 items-center justify-center text-sm text-muted-foreground">{message}</p>
+  );
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle>Diferencia por Centro</CardTitle>
+          <CardDescription>Diferencia absoluta WMS − SAP. Haz clic en un centro para filtrar la tabla.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {result.summaryChartData.length > 0 ? (
+            <ChartContainer config={centroChartConfig} className="aspect-auto h-72 w-full">
+              <BarChart data={result.summaryChartData}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="name" tickLine={false} axisLine={false} />
+                <YAxis tickLine={false} axisLine={false} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar
+                  dataKey="value"
+                  radius={4}
+                  cursor="pointer"
+                  onClick={(item) => onFilter({ ...DEFAULT_ANALYSIS_FILTERS, centro: item.payload.name, onlyDifferences: true })}
+                >
+                  {result.summaryChartData.map(item => <Cell key={item.name} fill={item.fill} />)}
+                </Bar>
+              </BarChart>
+            </ChartContainer>
+          ) : emptyChart('Sin diferencias por centro')}
+        </CardContent>
+      </Card>
+      <Card>
+        <CardHeader>
+          <CardTitle>Ajustes por Tipo</CardTitle>
+          <CardDescription>Cantidades ajustadas por categoría. Haz clic en una categoría para ver sus materiales.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {adjustmentData.length > 0 ? (
+            <ChartContainer config={adjustmentChartConfig} className="aspect-auto h-72 w-full">
+              <PieChart>
+                <ChartTooltip content={<ChartTooltipContent nameKey="category" hideLabel />} />
+                <Pie
+                  data={adjustmentData}
+                  dataKey="value"
+                  nameKey="category"
+                  innerRadius={50}
+                  cursor="pointer"
+                  onClick={(item) => onFilter({ ...DEFAULT_ANALYSIS_FILTERS, movement: MOVEMENT_CATEGORY_LABELS[item.payload.category as keyof typeof adjustmentChartConfig] })}
+                />
+                <ChartLegend content={<ChartLegendContent nameKey="category" />} />
+              </PieChart>
+            </ChartContainer>
+          ) : emptyChart('Sin ajustes contabilizados')}
+        </CardContent>
+      </Card>
+      <Card>
+        <CardHeader>
+          <CardTitle>Top {TOP_SKUS} SKUs por Diferencia</CardTitle>
+          <CardDescription>Diferencia absoluta sumando todos los centros. Haz clic en un SKU para buscarlo.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {topSkuData.length > 0 ? (
+            <ChartContainer config={topSkuChartConfig} className="aspect-auto h-72 w-full">
+              <BarChart data={topSkuData} layout="vertical" margin={{ left: 8 }}>
+                <CartesianGrid horizontal={false} />
+                <XAxis type="number" tickLine={false} axisLine={false} />
+                <YAxis type="category" dataKey="sku" width={90} interval={0} tickLine={false} axisLine={false} fontSize={10} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar
+                  dataKey="value"
+                  radius={4}
+                  cursor="pointer"
+                  onClick={(item) => onFilter({ ...DEFAULT_ANALYSIS_FILTERS, search: item.payload.sku })}
+                >
+                  {topSkuData.map(item => <Cell key={item.sku} fill={item.fill} />)}
+                </Bar>
+              </BarChart>
+            </ChartContainer>
+          ) : emptyChart('Sin diferencias por SKU')}
+        </CardContent>
+      </Card>
+    </>
+  );
+}
@@ -0,0 +1,290 @@
+'use client';
+
+import { useDeferredValue, useEffect, useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, ArrowUpDown, FileDown, Loader2, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import {
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useVirtualRows } from '@/hooks/use-virtual-rows';
+import { formatAmount } from '@/lib/price-list';
+import type { AnalysisReportRow } from '@/lib/reconcile';
+import { DIFFERENCE_STATUSES, type DifferenceStatus } from '@/lib/tolerances';
+
+type Column = keyof AnalysisReportRow;
+
+type SortState = { column: Column; direction: 'asc' | 'desc' };
+
+/** `'todos'` disables the centro, status and movement filters. */
+export type AnalysisTableFilters = {
+  /** Matched against the SKU and the product description. */
+  search: string;
+  centro: string;
+  estado: string;
+  /** Movement category name; keeps the materials with adjustments of that category. */
+  movement: string;
+  onlyDifferences: boolean;
+};
+
+export const ALL = 'todos';
+
+export const DEFAULT_ANALYSIS_FILTERS: AnalysisTableFilters = {
+  search: '',
+  centro: ALL,
+  estado: ALL,
+  movement: ALL,
+  onlyDifferences: false,
+};
+
+type AnalysisReportTableProps = {
+  rows: AnalysisReportRow[];
+  currency: string;
+  movementSkus: Record<string, string[]>;
+  filters: AnalysisTableFilters;
+  onFiltersChange: (filters: AnalysisTableFilters) => void;
+  /** Downloads the given rows, which are the filtered and sorted view. */
+  onExport: (rows: AnalysisReportRow[]) => Promise<void>;
+};
+
+// Only the rows in view are rendered, so every row has the same height.
+const ROW_HEIGHT = 41;
+const VIEWPORT_HEIGHT = 512;
+
+const VALUE_COLUMNS: Column[] = ['Valor SAP', 'Valor WMS', 'Valor Diferencia', 'Valor Residual'];
+const QUANTITY_COLUMNS: Column[] = [
+  'Stock SAP',
+  'Stock WMS',
+  'Diferencia',
+  'Ajuste Mensual (Dif. Inventario)',
+  'Diferencia Residual',
+  'Stock para Traslado',
+];
+const COLUMN_WIDTHS: Partial<Record<Column, string>> = {
+  'Centro': '6rem',
+  'Descripción (Almacén)': '10rem',
+  'SKU': '10rem',
+  'Nombre Prod': '16rem',
+  'Estado': '12rem',
+  'UM': '5rem',
+};
+const DEFAULT_COLUMN_WIDTH = '9rem';
+
+const collator = new Intl.Collator('es', { numeric: true, sensitivity: 'base' });
+
+// Empty values (materials without a price) sort last in both directions.
+const compareValues = (a: unknown, b: unknown, direction: SortState['direction']): number => {
+  if (a === '' || a === undefined) return b === '' || b === undefined ? 0 : 1;
+  if (b === '' || b === undefined) return -1;
+  const order = typeof a === 'number' && typeof b === 'number' ? a - b : collator.compare(String(a), String(b));
+  return direction === 'asc' ? order : -order;
+};
+
+const statusVariant = (status: DifferenceStatus): 'secondary' | 'outline' | 'destructive' => {
+  if (status === 'OK') return 'secondary';
+  if (status === 'Dentro de tolerancia' || status === 'Explicada por traslado') return 'outline';
+  return 'destructive';
+};
+
+/** The SKU-level analysis, searchable, sortable and filterable, with an export of the current view. */
+export function AnalysisReportTable({ rows, currency, movementSkus, filters, onFiltersChange, onExport }: AnalysisReportTableProps) {
+  const { centro, estado, movement, onlyDifferences } = filters;
+  const [sort, setSort] = useState<SortState | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const deferredSearch = useDeferredValue(filters.search);
+
+  const columns = useMemo(() => (rows.length > 0 ? Object.keys(rows[0]) as Column[] : []), [rows]);
+  const centros = useMemo(() => [...new Set(rows.map(row => row.Centro))].sort(collator.compare), [rows]);
+  const tableWidth = columns.length > 0
+    ? `calc(${columns.map(column => COLUMN_WIDTHS[column] ?? DEFAULT_COLUMN_WIDTH).join(' + ')})`
+    : undefined;
+
+  const visibleRows = useMemo(() => {
+    const term = deferredSearch.trim().toUpperCase();
+    const movementSet = movement === ALL ? undefined : new Set(movementSkus[movement] ?? []);
+    const filtered = rows.filter(row =>
+      (centro === ALL || row.Centro === centro) &&
+      (estado === ALL || row.Estado === estado) &&
+      (!movementSet || movementSet.has(row.SKU)) &&
+      (!onlyDifferences || row.Diferencia !== 0) &&
+      (!term || row.SKU.toUpperCase().includes(term) || row['Nombre Prod'].toUpperCase().includes(term))
+    );
+    if (!sort) return filtered;
+    return filtered.sort((a, b) => compareValues(a[sort.column], b[sort.column], sort.direction));
+  }, [rows, movementSkus, deferredSearch, centro, estado, movement, onlyDifferences, sort]);
+
+  const { viewportProps, firstIndex, lastIndex, paddingTop, paddingBottom, scrollToTop } =
+    useVirtualRows(visibleRows.length, { rowHeight: ROW_HEIGHT, viewportHeight: VIEWPORT_HEIGHT });
+
+  // Filters change the rows under the scroll position, so they start from the top.
+  useEffect(() => {
+    scrollToTop();
+  }, [filters, scrollToTop]);
+
+  const updateFilters = (patch: Partial<AnalysisTableFilters>) => onFiltersChange({ ...filters, ...patch });
+  const filtered = (Object.keys(filters) as Array<keyof AnalysisTableFilters>)
+    .some(key => filters[key] !== DEFAULT_ANALYSIS_FILTERS[key]);
+
+  const toggleSort = (column: Column) => {
+    setSort(current => {
+      if (current?.column !== column) return { column, direction: 'asc' };
+      return current.direction === 'asc' ? { column, direction: 'desc' } : null;
+    });
+  };
+
+  const exportView = async () => {
+    setExporting(true);
+    try {
+      await onExport(visibleRows);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const renderCell = (row: AnalysisReportRow, column: Column) => {
+    const value = row[column];
+    if (column === 'Estado') return <Badge variant={statusVariant(row.Estado)}>{row.Estado}</Badge>;
+    if (VALUE_COLUMNS.includes(column)) return typeof value === 'number' ? formatAmount(value, currency) : '';
+    return value;
+  };
+
+  return (
+    <Card className="lg:col-span-3">
+      <CardHeader>
+        <CardTitle>Análisis por SKU</CardTitle>
+        <CardDescription>
+          Mostrando {visibleRows.length} de {rows.length} líneas. Haz clic en un encabezado para ordenar o en un
+          gráfico para filtrar.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-4">
+          <Input
+            className="w-64"
+            placeholder="Buscar SKU o descripción..."
+            value={filters.search}
+            onChange={(event) => updateFilters({ search: event.target.value })}
+          />
+          <Select value={centro} onValueChange={(value) => updateFilters({ centro: value })}>
+            <SelectTrigger className="w-40" aria-label="Centro">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Todos los centros</SelectItem>
+              {centros.map(item => <SelectItem key={item} value={item}>{item}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <Select value={estado} onValueChange={(value) => updateFilters({ estado: value })}>
+            <SelectTrigger className="w-52" aria-label="Estado">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Todos los estados</SelectItem>
+              {DIFFERENCE_STATUSES.map(status => <SelectItem key={status} value={status}>{status}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          {Object.keys(movementSkus).length > 0 && (
+            <Select value={movement} onValueChange={(value) => updateFilters({ movement: value })}>
+              <SelectTrigger className="w-56" aria-label="Movimiento">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Con o sin ajustes</SelectItem>
+                {Object.keys(movementSkus).map(category => (
+                  <SelectItem key={category} value={category}>Con ajustes de {category}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <label className="flex items-center gap-2 text-sm">
+            <Switch checked={onlyDifferences} onCheckedChange={(value) => updateFilters({ onlyDifferences: value })} />
+            Solo diferencias
+          </label>
+          {filtered && (
+            <Button type="button" variant="ghost" onClick={() => onFiltersChange(DEFAULT_ANALYSIS_FILTERS)}>
+              <X className="mr-2 h-4 w-4" />
+              Limpiar filtros
+            </Button>
+          )}
+          <Button type="button" variant="outline" className="ml-auto" disabled={exporting || visibleRows.length === 0} onClick={exportView}>
+            {exporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileDown className="mr-2 h-4 w-4" />}
+            Exportar vista
+          </Button>
+        </div>
+        <div {...viewportProps} className="overflow-auto rounded-md border">
+          <table className="min-w-full table-fixed caption-bottom text-sm" style={{ width: tableWidth }}>
+            <colgroup>
+              {columns.map(column => <col key={column} style={{ width: COLUMN_WIDTHS[column] ?? DEFAULT_COLUMN_WIDTH }} />)}
+            </colgroup>
+            <TableHeader className="sticky top-0 z-10 bg-background">
+              <TableRow>
+                {columns.map(column => {
+                  const numeric = QUANTITY_COLUMNS.includes(column) || VALUE_COLUMNS.includes(column);
+                  const SortIcon = sort?.column !== column ? ArrowUpDown : sort.direction === 'asc' ? ArrowUp : ArrowDown;
+                  return (
+                    <TableHead key={column} className={numeric ? 'text-right' : undefined}>
+                      <button
+                        type="button"
+                        className={`inline-flex items-center gap-1 ${numeric ? 'flex-row-reverse' : ''}`}
+                        onClick={() => toggleSort(column)}
+                      >
+                        <span className="truncate">{column}</span>
+                        <SortIcon className="h-3 w-3 shrink-0" />
+                      </button>
+                    </TableHead>
+                  );
+                })}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleRows.length > 0 ? (
+                <>
+                  <tr style={{ height: paddingTop }} />
+                  {visibleRows.slice(firstIndex, lastIndex).map((row, index) => (
+                    <TableRow key={firstIndex + index} style={{ height: ROW_HEIGHT }}>
+                      {columns.map(column => (
+                        <TableCell
+                          key={column}
+                          className={`truncate whitespace-nowrap py-2 ${QUANTITY_COLUMNS.includes(column) || VALUE_COLUMNS.includes(column) ? 'text-right' : ''}`}
+                        >
+                          {renderCell(row, column)}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                  <tr style={{ height: paddingBottom }} />
+                </>
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={columns.length || 1} className="h-24 text-center">
+                    Ninguna línea coincide con los filtros
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
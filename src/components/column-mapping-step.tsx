@@ -0,0 +1,209 @@
+'use client';
+
+import { useState } from 'react';
+import { AlertTriangle, Save, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  COLUMN_ROLES,
+  FILE_COLUMN_ROLES,
+  FILE_LABELS,
+  type ColumnDetection,
+  type ColumnMapping,
+  type ColumnRole,
+  type FileKind,
+} from '@/lib/column-headers';
+import type { MappingProfile } from '@/lib/mapping-profiles';
+import {
+  NUMBER_FORMAT_LABELS,
+  type NumberFormat,
+  type NumberFormatDetection,
+} from '@/lib/number-parser';
+
+// Radix Select reserves the empty string, so "no column" needs its own value.
+const NO_COLUMN = '__none__';
+
+type ColumnMappingStepProps = {
+  kind: FileKind;
+  headers: string[];
+  detection: ColumnDetection;
+  mapping: ColumnMapping;
+  onChange: (mapping: ColumnMapping) => void;
+  /** Saved profiles for this file kind. */
+  profiles: MappingProfile[];
+  appliedProfileId?: string;
+  onApplyProfile: (profile: MappingProfile) => void;
+  onSaveProfile: (name: string) => void;
+  onDeleteProfile: (profile: MappingProfile) => void;
+  numberFormat: NumberFormat;
+  /** Format detected from the mapped quantity column, shown next to "Automático". */
+  detectedNumberFormat?: NumberFormatDetection;
+  onNumberFormatChange: (format: NumberFormat) => void;
+};
+
+export function ColumnMappingStep({
+  kind,
+  headers,
+  detection,
+  mapping,
+  onChange,
+  profiles,
+  appliedProfileId,
+  onApplyProfile,
+  onSaveProfile,
+  onDeleteProfile,
+  numberFormat,
+  detectedNumberFormat,
+  onNumberFormatChange,
+}: ColumnMappingStepProps) {
+  const { required, optional } = FILE_COLUMN_ROLES[kind];
+  const [profileName, setProfileName] = useState('');
+  const appliedProfile = profiles.find(profile => profile.id === appliedProfileId);
+
+  const setRole = (role: ColumnRole, header: string) => {
+    const next = { ...mapping };
+    if (header === NO_COLUMN) {
+      delete next[role];
+    } else {
+      next[role] = header;
+    }
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium">Archivo {FILE_LABELS[kind]}</p>
+      <div className="flex flex-wrap items-center gap-2">
+        <Select
+          value={appliedProfile?.id ?? NO_COLUMN}
+          onValueChange={(id) => {
+            const profile = profiles.find(item => item.id === id);
+            if (profile) onApplyProfile(profile);
+          }}
+          disabled={profiles.length === 0}
+        >
+          <SelectTrigger className="w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_COLUMN} disabled>
+              {profiles.length === 0 ? 'Sin perfiles guardados' : 'Aplicar perfil...'}
+            </SelectItem>
+            {profiles.map(profile => (
+              <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {appliedProfile && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            aria-label={`Eliminar perfil ${appliedProfile.name}`}
+            onClick={() => onDeleteProfile(appliedProfile)}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+        <Input
+          className="w-48"
+          placeholder="Nombre del perfil"
+          value={profileName}
+          onChange={(event) => setProfileName(event.target.value)}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          disabled={!profileName.trim()}
+          onClick={() => {
+            onSaveProfile(profileName);
+            setProfileName('');
+          }}
+        >
+          <Save className="mr-2 h-4 w-4" />
+          Guardar perfil
+        </Button>
+      </div>
+      <label className="flex items-center gap-2 text-sm">
+        Formato numérico:
+        <Select value={numberFormat} onValueChange={(format) => onNumberFormatChange(format as NumberFormat)}>
+          <SelectTrigger className="w-64">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(NUMBER_FORMAT_LABELS) as NumberFormat[]).map(format => (
+              <SelectItem key={format} value={format}>
+                {format === 'auto' && detectedNumberFormat
+                  ? `${NUMBER_FORMAT_LABELS.auto}: ${detectedNumberFormat.ambiguous ? 'ambiguo' : NUMBER_FORMAT_LABELS[detectedNumberFormat.format]}`
+                  : NUMBER_FORMAT_LABELS[format]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </label>
+      {numberFormat === 'auto' && detectedNumberFormat?.ambiguous && (
+        <p className="flex items-center gap-1 text-xs text-amber-600">
+          <AlertTriangle className="h-3 w-3 shrink-0" />
+          Las cantidades (p. ej. "1.200") se leen igual con separador de miles o decimal; se interpretarán como {NUMBER_FORMAT_LABELS[detectedNumberFormat.format]}. Elige el formato numérico del archivo.
+        </p>
+      )}
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-1/3">Dato</TableHead>
+            <TableHead>Columna del archivo</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {[...required, ...optional].map(role => {
+            const isRequired = required.includes(role);
+            const candidates = detection.ambiguous[role];
+            const selected = mapping[role];
+            return (
+              <TableRow key={role}>
+                <TableCell className="align-top">
+                  {COLUMN_ROLES[role].label}
+                  {isRequired && <span className="text-destructive"> *</span>}
+                </TableCell>
+                <TableCell className="space-y-1">
+                  <Select value={selected ?? NO_COLUMN} onValueChange={(header) => setRole(role, header)}>
+                    <SelectTrigger className={isRequired && !selected ? 'border-destructive' : undefined}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_COLUMN}>— Sin columna —</SelectItem>
+                      {headers.map(header => (
+                        <SelectItem key={header} value={header}>{header}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {candidates && (
+                    <p className="flex items-center gap-1 text-xs text-amber-600">
+                      <AlertTriangle className="h-3 w-3 shrink-0" />
+                      Varias columnas coinciden: {candidates.join(', ')}. Verifica la selección.
+                    </p>
+                  )}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
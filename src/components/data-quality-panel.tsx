@@ -0,0 +1,101 @@
+'use client';
+
+import { useEffect } from 'react';
+import { Badge } from '@/components/ui/badge';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useVirtualRows } from '@/hooks/use-virtual-rows';
+import type { DataQualityIssue } from '@/lib/reconcile';
+import { WORKBOOK_SHEETS } from '@/lib/workbook-sheets';
+
+type DataQualityPanelProps = {
+  issues: DataQualityIssue[];
+};
+
+// A file full of bad rows can produce thousands of issues, so only the rows in view are rendered.
+const ROW_HEIGHT = 41;
+const VIEWPORT_HEIGHT = 288;
+
+/** Lists the rows the analysis skipped and the suspicious rows it used. */
+export function DataQualityPanel({ issues }: DataQualityPanelProps) {
+  const skipped = issues.filter(issue => issue.Tipo === 'Fila omitida').length;
+  const warnings = issues.length - skipped;
+
+  const { viewportProps, firstIndex, lastIndex, paddingTop, paddingBottom, scrollToTop } =
+    useVirtualRows(issues.length, { rowHeight: ROW_HEIGHT, viewportHeight: VIEWPORT_HEIGHT });
+
+  useEffect(() => {
+    scrollToTop();
+  }, [issues, scrollToTop]);
+
+  return (
+    <Card className="lg:col-span-3">
+      <CardHeader>
+        <CardTitle>Calidad de datos</CardTitle>
+        <CardDescription className="flex flex-wrap items-center gap-2">
+          Filas excluidas del análisis y filas incluidas que conviene revisar. El detalle completo se exporta en la
+          hoja &quot;{WORKBOOK_SHEETS.dataQuality}&quot;.
+          <Badge variant={skipped > 0 ? 'destructive' : 'secondary'}>{skipped} omitidas</Badge>
+          <Badge variant="secondary">{warnings} advertencias</Badge>
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div {...viewportProps} className="overflow-auto rounded-md border">
+          <table className="w-full table-fixed caption-bottom text-sm">
+            <colgroup>
+              <col style={{ width: '7rem' }} />
+              <col style={{ width: '5rem' }} />
+              <col style={{ width: '9rem' }} />
+              <col style={{ width: '10rem' }} />
+              <col />
+            </colgroup>
+            <TableHeader className="sticky top-0 z-10 bg-background">
+              <TableRow>
+                <TableHead>Archivo</TableHead>
+                <TableHead className="text-right">Fila</TableHead>
+                <TableHead>Tipo</TableHead>
+                <TableHead>SKU</TableHead>
+                <TableHead>Motivo</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {issues.length > 0 ? (
+                <>
+                  <tr style={{ height: paddingTop }} />
+                  {issues.slice(firstIndex, lastIndex).map((issue, index) => (
+                    <TableRow key={firstIndex + index} style={{ height: ROW_HEIGHT }}>
+                      <TableCell className="truncate whitespace-nowrap py-2">{issue.Archivo}</TableCell>
+                      <TableCell className="truncate whitespace-nowrap py-2 text-right">{issue.Fila}</TableCell>
+                      <TableCell className="truncate whitespace-nowrap py-2">
+                        <Badge variant={issue.Tipo === 'Fila omitida' ? 'destructive' : 'outline'}>{issue.Tipo}</Badge>
+                      </TableCell>
+                      <TableCell className="truncate whitespace-nowrap py-2">{issue.SKU}</TableCell>
+                      <TableCell className="truncate whitespace-nowrap py-2" title={issue.Motivo}>{issue.Motivo}</TableCell>
+                    </TableRow>
+                  ))}
+                  <tr style={{ height: paddingBottom }} />
+                </>
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={5} className="h-24 text-center">No se encontraron problemas en los datos</TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,174 @@
+'use client';
+
+import { Plus, RotateCcw, SlidersHorizontal, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  DEFAULT_MOVEMENT_RULES,
+  MOVEMENT_CATEGORY_LABELS,
+  customCategoryErrors,
+  normalizeClaseMov,
+  type MovementCategory,
+  type MovementRule,
+} from '@/lib/movement-rules';
+
+type MovementRulesEditorProps = {
+  rules: MovementRule[];
+  onChange: (rules: MovementRule[]) => void;
+};
+
+export function MovementRulesEditor({ rules, onChange }: MovementRulesEditorProps) {
+  const updateRule = (index: number, patch: Partial<MovementRule>) => {
+    onChange(rules.map((rule, i) => (i === index ? { ...rule, ...patch } : rule)));
+  };
+
+  const duplicates = new Set(
+    rules
+      .map(rule => normalizeClaseMov(rule.claseMov))
+      .filter((claseMov, index, all) => claseMov && all.indexOf(claseMov) !== index)
+  );
+  const categoryErrors = customCategoryErrors(rules);
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button type="button" variant="outline" className="w-full">
+          <SlidersHorizontal className="mr-2 h-4 w-4" />
+          Reglas de Clases de Movimiento ({rules.length})
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Reglas de Clases de Movimiento</DialogTitle>
+          <DialogDescription>
+            Define cómo se clasifica cada clase de movimiento del archivo de Ajustes. Las clases sin regla se ignoran.
+          </DialogDescription>
+        </DialogHeader>
+        <ScrollArea className="h-96 pr-4">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-28">Clase Mov.</TableHead>
+                <TableHead>Categoría</TableHead>
+                <TableHead>Nombre Personalizado</TableHead>
+                <TableHead className="w-32">Signo</TableHead>
+                <TableHead className="w-12" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rules.map((rule, index) => (
+                <TableRow key={index}>
+                  <TableCell>
+                    <Input
+                      value={rule.claseMov}
+                      aria-invalid={duplicates.has(normalizeClaseMov(rule.claseMov))}
+                      className={duplicates.has(normalizeClaseMov(rule.claseMov)) ? 'border-destructive' : undefined}
+                      onChange={(event) => updateRule(index, { claseMov: event.target.value.toUpperCase() })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={rule.category}
+                      onValueChange={(category) => updateRule(index, { category: category as MovementCategory })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(MOVEMENT_CATEGORY_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      value={rule.customCategory ?? ''}
+                      disabled={rule.category !== 'personalizada'}
+                      aria-invalid={categoryErrors.has(index)}
+                      className={categoryErrors.has(index) ? 'border-destructive' : undefined}
+                      placeholder={rule.category === 'personalizada' ? 'Ej. Daño' : undefined}
+                      onChange={(event) => updateRule(index, { customCategory: event.target.value })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={String(rule.sign)}
+                      onValueChange={(sign) => updateRule(index, { sign: sign === '-1' ? -1 : 1 })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="1">Como en SAP</SelectItem>
+                        <SelectItem value="-1">Invertido</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      aria-label={`Eliminar regla ${rule.claseMov}`}
+                      onClick={() => onChange(rules.filter((_, i) => i !== index))}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </ScrollArea>
+        {duplicates.size > 0 && (
+          <p className="text-sm text-destructive">
+            Clases duplicadas: {Array.from(duplicates).join(', ')}. Se aplicará la última regla.
+          </p>
+        )}
+        {Array.from(categoryErrors.entries(), ([index, error]) => (
+          <p key={index} className="text-sm text-destructive">{error}</p>
+        ))}
+        <DialogFooter className="gap-2 sm:justify-between">
+          <Button type="button" variant="ghost" onClick={() => onChange(DEFAULT_MOVEMENT_RULES)}>
+            <RotateCcw className="mr-2 h-4 w-4" />
+            Restaurar predeterminadas
+          </Button>
+          <Button
+            type="button"
+            variant="secondary"
+            onClick={() => onChange([...rules, { claseMov: '', category: 'inventario', sign: 1 }])}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Agregar regla
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
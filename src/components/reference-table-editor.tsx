@@ -0,0 +1,182 @@
+'use client';
+
+import { useRef, useState, type ReactNode } from 'react';
+import { Plus, Trash2, Upload, type LucideIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useToast } from '@/hooks/use-toast';
+import type { SpreadsheetRow } from '@/lib/reconcile';
+import { readFirstSheetRows, readWorkbook, SUPPORTED_FILE_EXTENSIONS } from '@/lib/spreadsheet-reader';
+
+/** Rendering thousands of inputs freezes the dialog; the search narrows the list instead. */
+const MAX_VISIBLE_ENTRIES = 200;
+
+type ReferenceTableEditorProps<T> = {
+  entries: T[];
+  onChange: (entries: T[]) => void;
+  icon: LucideIcon;
+  title: string;
+  description: ReactNode;
+  searchPlaceholder: string;
+  /** Whether the entry matches the trimmed, upper-case search term. */
+  matchesSearch: (entry: T, query: string) => boolean;
+  /** Header cells of the entry columns; the delete column follows them. */
+  headers: ReactNode;
+  /** Cells of one entry; `update` patches that entry. */
+  renderCells: (entry: T, update: (patch: Partial<T>) => void) => ReactNode;
+  deleteLabel: (entry: T) => string;
+  addLabel: string;
+  createEntry: () => T;
+  /** Converts the rows of an imported file, whose headers are on the first row. */
+  parseRows: (rows: SpreadsheetRow[]) => T[];
+  /** Imported rows replace existing entries with the same key. */
+  entryKey: (entry: T) => string;
+  importedTitle: string;
+  importedDescription: (count: number, fileName: string) => string;
+};
+
+/** Dialog to edit, search and import a reference table kept in the browser, such as equivalences or conversions. */
+export function ReferenceTableEditor<T>({
+  entries,
+  onChange,
+  icon: Icon,
+  title,
+  description,
+  searchPlaceholder,
+  matchesSearch,
+  headers,
+  renderCells,
+  deleteLabel,
+  addLabel,
+  createEntry,
+  parseRows,
+  entryKey,
+  importedTitle,
+  importedDescription,
+}: ReferenceTableEditorProps<T>) {
+  const { toast } = useToast();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [search, setSearch] = useState('');
+
+  const updateEntry = (index: number, patch: Partial<T>) => {
+    onChange(entries.map((entry, i) => (i === index ? { ...entry, ...patch } : entry)));
+  };
+
+  const importFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const imported = parseRows(readFirstSheetRows(readWorkbook(await file.arrayBuffer(), file.name)));
+      const importedKeys = new Set(imported.map(entryKey));
+      onChange([...entries.filter(entry => !importedKeys.has(entryKey(entry))), ...imported]);
+      toast({ title: importedTitle, description: importedDescription(imported.length, file.name) });
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'No se pudo importar', description: error.message });
+    } finally {
+      if (fileInput.current) fileInput.current.value = '';
+    }
+  };
+
+  const query = search.trim().toUpperCase();
+  const matches = entries
+    .map((entry, index) => ({ entry, index }))
+    .filter(({ entry }) => !query || matchesSearch(entry, query));
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button type="button" variant="outline" className="w-full">
+          <Icon className="mr-2 h-4 w-4" />
+          {title} ({entries.length})
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+        <Input placeholder={searchPlaceholder} value={search} onChange={(event) => setSearch(event.target.value)} />
+        <ScrollArea className="h-96 pr-4">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {headers}
+                <TableHead className="w-12" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {matches.slice(0, MAX_VISIBLE_ENTRIES).map(({ entry, index }) => (
+                <TableRow key={index}>
+                  {renderCells(entry, patch => updateEntry(index, patch))}
+                  <TableCell>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      aria-label={deleteLabel(entry)}
+                      onClick={() => onChange(entries.filter((_, i) => i !== index))}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </ScrollArea>
+        {matches.length > MAX_VISIBLE_ENTRIES && (
+          <p className="text-sm text-muted-foreground">
+            Mostrando {MAX_VISIBLE_ENTRIES} de {matches.length}. Usa la búsqueda para encontrar el resto.
+          </p>
+        )}
+        <DialogFooter className="gap-2 sm:justify-between">
+          <div className="flex gap-2">
+            <Button type="button" variant="ghost" disabled={entries.length === 0} onClick={() => onChange([])}>
+              <Trash2 className="mr-2 h-4 w-4" />
+              Vaciar
+            </Button>
+            <Button type="button" variant="outline" onClick={() => fileInput.current?.click()}>
+              <Upload className="mr-2 h-4 w-4" />
+              Importar archivo
+            </Button>
+            <input
+              ref={fileInput}
+              type="file"
+              accept={SUPPORTED_FILE_EXTENSIONS.join(',')}
+              className="hidden"
+              onChange={(event) => importFile(event.target.files?.[0])}
+            />
+          </div>
+          <Button
+            type="button"
+            variant="secondary"
+            onClick={() => {
+              setSearch('');
+              onChange([...entries, createEntry()]);
+            }}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            {addLabel}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,86 @@
+'use client';
+
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { haveSameHeaders, type SheetSummary } from '@/lib/spreadsheet-reader';
+
+type SheetPickerProps = {
+  sheets: SheetSummary[];
+  selected: string[];
+  onChange: (sheetNames: string[]) => void;
+  /** Zero-based header row forced by the user; undefined means automatic. */
+  headerRowOverride?: number;
+  onHeaderRowChange: (headerRow: number | undefined) => void;
+};
+
+/**
+ * Lets the user choose which sheets of a workbook hold the data and, when the
+ * automatic detection picks the wrong line, the row holding the headers.
+ * Selecting several sheets concatenates them, so only sheets whose header row
+ * matches the first selected one can be added.
+ */
+export function SheetPicker({ sheets, selected, onChange, headerRowOverride, onHeaderRowChange }: SheetPickerProps) {
+  const first = sheets.find(sheet => sheet.name === selected[0]);
+
+  const toggle = (name: string, checked: boolean) => {
+    // Keep workbook order so concatenation is predictable.
+    const next = checked ? [...selected, name] : selected.filter(item => item !== name);
+    onChange(sheets.map(sheet => sheet.name).filter(sheetName => next.includes(sheetName)));
+  };
+
+  // Rows are shown 1-based, as in Excel.
+  const commitHeaderRow = (value: string) => {
+    const row = parseInt(value, 10);
+    const next = value.trim() === '' || isNaN(row) || row < 1 ? undefined : row - 1;
+    if (next !== headerRowOverride) onHeaderRowChange(next);
+  };
+
+  return (
+    <div className="space-y-1 rounded-md border p-2">
+      <label className="flex items-center gap-2 text-xs text-muted-foreground">
+        Fila de encabezados:
+        <Input
+          key={headerRowOverride ?? 'auto'}
+          type="number"
+          min={1}
+          className="h-7 w-20"
+          placeholder="Auto"
+          defaultValue={headerRowOverride !== undefined ? headerRowOverride + 1 : ''}
+          onBlur={(event) => commitHeaderRow(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === 'Enter') {
+              event.preventDefault();
+              commitHeaderRow(event.currentTarget.value);
+            }
+          }}
+        />
+        {first && headerRowOverride === undefined && <span>(detectada: fila {first.headerRow + 1})</span>}
+      </label>
+      {sheets.length > 1 && (
+        <p className="text-xs text-muted-foreground">
+          Hojas del libro (selecciona varias con los mismos encabezados para concatenarlas):
+        </p>
+      )}
+      {sheets.length > 1 && sheets.map(sheet => {
+        const isSelected = selected.includes(sheet.name);
+        const compatible = !first || haveSameHeaders(first, sheet);
+        return (
+          <label key={sheet.name} className="flex items-center gap-2 text-sm">
+            <Checkbox
+              checked={isSelected}
+              disabled={!isSelected && !compatible}
+              onCheckedChange={(checked) => toggle(sheet.name, checked === true)}
+            />
+            <span>{sheet.name}</span>
+            <span className="text-xs text-muted-foreground">({sheet.rowCount} filas)</span>
+            {sheet.recognized && <Badge variant="secondary">Datos reconocidos</Badge>}
+            {!isSelected && !compatible && (
+              <span className="text-xs text-muted-foreground">encabezados distintos</span>
+            )}
+          </label>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+'use client';
+
+import { ArrowRightLeft } from 'lucide-react';
+import { ReferenceTableEditor } from '@/components/reference-table-editor';
+import { Input } from '@/components/ui/input';
+import { TableCell, TableHead } from '@/components/ui/table';
+import { parseCrossReferenceRows, type SkuCrossReference } from '@/lib/sku-cross-reference';
+
+type SkuCrossReferenceEditorProps = {
+  entries: SkuCrossReference[];
+  onChange: (entries: SkuCrossReference[]) => void;
+};
+
+export function SkuCrossReferenceEditor({ entries, onChange }: SkuCrossReferenceEditorProps) {
+  return (
+    <ReferenceTableEditor
+      entries={entries}
+      onChange={onChange}
+      icon={ArrowRightLeft}
+      title="Equivalencias WMS → SAP"
+      description={
+        'Traduce códigos WMS que no son el material SAP. La cantidad WMS se multiplica por el factor para ' +
+        'expresarla en unidades SAP. Con equivalencias cargadas, los artículos WMS sin equivalencia ni material ' +
+        'SAP se listan aparte.'
+      }
+      searchPlaceholder="Buscar código..."
+      matchesSearch={(entry, query) => entry.wmsSku.toUpperCase().includes(query) || entry.sapSku.toUpperCase().includes(query)}
+      headers={
+        <>
+          <TableHead>SKU WMS</TableHead>
+          <TableHead>Material SAP</TableHead>
+          <TableHead className="w-32">Factor</TableHead>
+        </>
+      }
+      renderCells={(entry, update) => (
+        <>
+          <TableCell>
+            <Input value={entry.wmsSku} onChange={(event) => update({ wmsSku: event.target.value })} />
+          </TableCell>
+          <TableCell>
+            <Input value={entry.sapSku} onChange={(event) => update({ sapSku: event.target.value })} />
+          </TableCell>
+          <TableCell>
+            <Input
+              type="number"
+              step="any"
+              min={0}
+              value={entry.factor}
+              onChange={(event) => update({ factor: parseFloat(event.target.value) || 0 })}
+            />
+          </TableCell>
+        </>
+      )}
+      deleteLabel={entry => `Eliminar equivalencia ${entry.wmsSku}`}
+      addLabel="Agregar equivalencia"
+      createEntry={() => ({ wmsSku: '', sapSku: '', factor: 1 })}
+      parseRows={parseCrossReferenceRows}
+      // Imported rows replace existing entries for the same WMS code.
+      entryKey={entry => entry.wmsSku}
+      importedTitle="Equivalencias importadas"
+      importedDescription={(count, fileName) => `${count} equivalencia(s) cargadas desde ${fileName}.`}
+    />
+  );
+}
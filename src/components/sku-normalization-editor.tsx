@@ -0,0 +1,133 @@
+'use client';
+
+import { useState } from 'react';
+import { RotateCcw, Wand2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import {
+  DEFAULT_SKU_NORMALIZATION,
+  LEADING_ZEROS_LABELS,
+  normalizeSku,
+  parseAffixList,
+  type LeadingZerosMode,
+  type SkuNormalization,
+} from '@/lib/sku-normalization';
+
+type SkuNormalizationEditorProps = {
+  rules: SkuNormalization;
+  onChange: (rules: SkuNormalization) => void;
+};
+
+export function SkuNormalizationEditor({ rules, onChange }: SkuNormalizationEditorProps) {
+  const [sample, setSample] = useState('000000000001234567');
+  const update = (patch: Partial<SkuNormalization>) => onChange({ ...rules, ...patch });
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button type="button" variant="outline" className="w-full">
+          <Wand2 className="mr-2 h-4 w-4" />
+          Normalización de SKU
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Normalización de SKU</DialogTitle>
+          <DialogDescription>
+            Se aplica a los SKU de SAP, WMS y Ajustes antes de compararlos.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <label className="flex items-center justify-between gap-4 text-sm">
+            Ceros a la izquierda
+            <Select
+              value={rules.leadingZeros}
+              onValueChange={(mode) => update({ leadingZeros: mode as LeadingZerosMode })}
+            >
+              <SelectTrigger className="w-60">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(LEADING_ZEROS_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </label>
+          {rules.leadingZeros === 'pad' && (
+            <label className="flex items-center justify-between gap-4 text-sm">
+              Largo del SKU numérico
+              <Input
+                type="number"
+                min={1}
+                className="w-24"
+                value={rules.padLength}
+                onChange={(event) => update({ padLength: Math.max(parseInt(event.target.value, 10) || 1, 1) })}
+              />
+            </label>
+          )}
+          <label className="flex items-center justify-between gap-4 text-sm">
+            Prefijos a quitar
+            <Input
+              key={rules.prefixes.join(',')}
+              className="w-60"
+              placeholder="Ej. MAT-, SKU"
+              defaultValue={rules.prefixes.join(', ')}
+              onBlur={(event) => update({ prefixes: parseAffixList(event.target.value) })}
+            />
+          </label>
+          <label className="flex items-center justify-between gap-4 text-sm">
+            Sufijos a quitar
+            <Input
+              key={rules.suffixes.join(',')}
+              className="w-60"
+              placeholder="Ej. -UN"
+              defaultValue={rules.suffixes.join(', ')}
+              onBlur={(event) => update({ suffixes: parseAffixList(event.target.value) })}
+            />
+          </label>
+          <label className="flex items-center justify-between gap-4 text-sm">
+            Convertir a mayúsculas
+            <Switch checked={rules.uppercase} onCheckedChange={(uppercase) => update({ uppercase })} />
+          </label>
+          <label className="flex items-center justify-between gap-4 text-sm">
+            Quitar separadores (espacios, guiones, puntos, barras)
+            <Switch checked={rules.removeSeparators} onCheckedChange={(removeSeparators) => update({ removeSeparators })} />
+          </label>
+          <div className="space-y-1 rounded-md border p-3 text-sm">
+            <label className="flex items-center justify-between gap-4">
+              Probar con
+              <Input className="w-60" value={sample} onChange={(event) => setSample(event.target.value)} />
+            </label>
+            <p className="text-muted-foreground">
+              Resultado: <span className="font-mono text-foreground">{normalizeSku(sample, rules) || '(vacío)'}</span>
+            </p>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button type="button" variant="ghost" onClick={() => onChange(DEFAULT_SKU_NORMALIZATION)}>
+            <RotateCcw className="mr-2 h-4 w-4" />
+            Restaurar predeterminadas
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
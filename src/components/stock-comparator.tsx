@@ -1,17 +1,20 @@
 'use client';
 
-import { useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { Button } from '@/components/ui/button';
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
   FormMessage,
 } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
 import {
   Card,
   CardContent,
@@ -20,7 +23,7 @@ import {
   CardTitle,
 } from '@/components/ui/card';
 import { useToast } from '@/hooks/use-toast';
-import { Loader2 } from 'lucide-react';
+import { Download, Loader2, Upload, X } from 'lucide-react';
 import {
   Table,
   TableBody,
@@ -29,86 +32,288 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import { Progress } from '@/components/ui/progress';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import * as XLSX from 'xlsx';
+import { AccuracyKpiPanel } from '@/components/accuracy-kpi-panel';
+import { AnalysisDashboard } from '@/components/analysis-dashboard';
+import { AnalysisReportTable, DEFAULT_ANALYSIS_FILTERS, type AnalysisTableFilters } from '@/components/analysis-report-table';
+import { ColumnMappingStep } from '@/components/column-mapping-step';
+import { DataQualityPanel } from '@/components/data-quality-panel';
+import { MovementRulesEditor } from '@/components/movement-rules-editor';
+import { SheetPicker } from '@/components/sheet-picker';
+import { ToleranceRulesEditor } from '@/components/tolerance-rules-editor';
+import { SkuCrossReferenceEditor } from '@/components/sku-cross-reference-editor';
+import { SkuNormalizationEditor } from '@/components/sku-normalization-editor';
+import { TransferRuleEditor } from '@/components/transfer-rule-editor';
+import { UnitConversionEditor } from '@/components/unit-conversion-editor';
+import { useLocalStorage } from '@/hooks/use-local-storage';
+import { useReconcileWorker } from '@/hooks/use-reconcile-worker';
+import { DEFAULT_MOVEMENT_RULES, movementTitle as formatMovementTitle } from '@/lib/movement-rules';
+import {
+  FILE_KINDS,
+  FILE_LABELS,
+  type ColumnDetection,
+  type ColumnMapping,
+  type FileKind,
+} from '@/lib/column-headers';
+import {
+  applyMappingProfile,
+  createMappingProfile,
+  mergeMappingProfiles,
+  parseMappingProfiles,
+  serializeMappingProfiles,
+  suggestMappingProfile,
+  type MappingProfile,
+} from '@/lib/mapping-profiles';
+import type { NumberFormat } from '@/lib/number-parser';
+import { formatAmount } from '@/lib/price-list';
+import type { FileInspection } from '@/lib/reconcile.worker';
+import type { SkuCrossReference } from '@/lib/sku-cross-reference';
+import { DEFAULT_SKU_NORMALIZATION } from '@/lib/sku-normalization';
+import type { ToleranceRule } from '@/lib/tolerances';
+import { DEFAULT_TRANSFER_RULE } from '@/lib/transfer-rules';
+import type { UnitConversion } from '@/lib/unit-conversion';
+import { SUPPORTED_FILE_EXTENSIONS, type SheetSummary } from '@/lib/spreadsheet-reader';
+import { DEFAULT_STORAGE_LOCATIONS, type AnalysisReportRow, type AnalysisResult, type CentroQuantityRow } from '@/lib/reconcile';
 
 
 type FormData = {
   sapFile: FileList;
   wmsFile: FileList;
   adjustmentsFile: FileList | null;
+  priceFile: FileList | null;
+  storageLocations: string[];
+  lotLevel: boolean;
 };
 
-type AnalysisResult = {
-  analysisReport: any[];
-  mermaReport: Array<{ Centro: string; 'Suma de Cantidad': number }>;
-  vencimientoReport: Array<{ Centro: string; 'Suma de Cantidad': number }>;
-  summaryChartData: Array<{ name: string; value: number; fill: string }>;
-  diferenciaReport: Array<{ Centro: string; 'Diferencia': number }>;
+type FilePreview = {
+  file: File;
+  sheets: SheetSummary[];
+  selectedSheets: string[];
+  headerRowOverride?: number;
+  headers: string[];
+  detection: ColumnDetection;
 };
 
+type PreviewOptions = { sheetNames?: string[]; headerRow?: number };
 
 // --- Helper Functions ---
 
-const SKU_SYNONYMS = ['sku', 'material', 'código', 'codigo', 'cód', 'cod', 'item', 'producto', 'product id', 'artículo', 'articulo', 'referencia', 'ref', 'número de artículo', 'numero de articulo'];
-const QTY_SYNONYMS = ['unrestrictedstock', 'libre utilización', 'ctd.en um entrada', 'quantity', 'unrestricted', 'cantidad', 'cant', 'stock', 'existencia', 'existencias', 'qty', 'on hand', 'disponible', 'stock sap', 'stock wms', 'ajuste', 'ajustes'];
-const AREA_SYNONYMS = ['area', 'área'];
-const WMS_AREA_SAP_SYNONYMS = ['area sap', 'almacén', 'almacen', 'storage location'];
-const UBICACION_SYNONYMS = ['ubicación', 'ubicacion', 'bin', 'location'];
-const CENTRO_SYNONYMS = ['centro', 'center', 'plant'];
-const NOMBRE_PROD_SYNONYMS = ['nombre prod', 'nombre producto', 'product name', 'descripción', 'descripcion', 'description', 'texto breve de material'];
-const CLASE_MOV_SYNONYMS = ['clase de movimiento', 'clase mov', 'cl. mov.'];
-
-
-const findHeader = (row: any, synonyms: string[]): string | undefined => {
-  if (!row) return undefined;
-  const standardizedRowKeys = Object.keys(row).map(k =>
-    k.toLowerCase().trim().replace(/\s+/g, ' ')
-  );
-  const cleanedSynonyms = synonyms.map(s => s.toLowerCase().trim().replace(/\s+/g, ' '));
-  for (const synonym of cleanedSynonyms) {
-    const foundKeyIndex = standardizedRowKeys.findIndex(key => key === synonym);
-    if (foundKeyIndex !== -1) {
-        return Object.keys(row)[foundKeyIndex];
-    }
-  }
-  for (const synonym of cleanedSynonyms) {
-      const foundKeyIndex = standardizedRowKeys.findIndex(key => key.includes(synonym));
-      if (foundKeyIndex !== -1) {
-          return Object.keys(row)[foundKeyIndex];
-      }
-  }
-  return undefined;
+const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
 };
 
-const readFile = async (file: File, fileName: string): Promise<any[]> => {
-    if (!file) return [];
-    try {
-        const data = await file.arrayBuffer();
-        const workbook = XLSX.read(data, { type: 'array', cellDates: true, raw: false });
-        const sheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[sheetName];
-        if (!worksheet) {
-          throw new Error(`La hoja de cálculo '${sheetName}' no se encontró o está vacía.`);
-        }
-        const jsonData = XLSX.utils.sheet_to_json(worksheet, { raw: false });
-        if (jsonData.length === 0) {
-            throw new Error('El archivo no contiene datos o está en un formato incorrecto.');
-        }
-        return jsonData;
-    } catch (error: any) {
-        console.error(`Error reading ${fileName} file`, error);
-        throw new Error(`No se pudo leer el archivo ${fileName}. Asegúrate que es un formato .xlsx válido. Detalle: ${error.message}`);
-    }
-};
+function CentroQuantityCard({ title, rows, currency }: { title: string; rows: CentroQuantityRow[]; currency: string }) {
+  const valued = rows.some(item => item.Valor !== undefined);
+  return (
+    <Card>
+        <CardHeader>
+            <CardTitle>{title}</CardTitle>
+            {valued && (
+                <CardDescription>Total: {formatAmount(rows.reduce((sum, item) => sum + (item.Valor ?? 0), 0), currency)}</CardDescription>
+            )}
+        </CardHeader>
+        <CardContent>
+            <ScrollArea className="h-72">
+                <Table>
+                    <TableHeader>
+                        <TableRow>
+                            <TableHead>Centro</TableHead>
+                            <TableHead className="text-right">Cantidad</TableHead>
+                            {valued && <TableHead className="text-right">Valor</TableHead>}
+                        </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                        {rows.length > 0 ? rows.map(item => (
+                            <TableRow key={item.Centro}>
+                                <TableCell>{item.Centro}</TableCell>
+                                <TableCell className="text-right">{item['Suma de Cantidad']}</TableCell>
+                                {valued && <TableCell className="text-right">{formatAmount(item.Valor ?? 0, currency)}</TableCell>}
+                            </TableRow>
+                        )) : (
+                            <TableRow>
+                                <TableCell colSpan={valued ? 3 : 2} className="h-24 text-center">No hay datos</TableCell>
+                            </TableRow>
+                        )}
+                    </TableBody>
+                </Table>
+            </ScrollArea>
+        </CardContent>
+    </Card>
+  );
+}
 
 
 export function StockComparator() {
-  const form = useForm<FormData>();
+  const form = useForm<FormData>({ defaultValues: { storageLocations: DEFAULT_STORAGE_LOCATIONS, lotLevel: false } });
   const { toast } = useToast();
   const [isLoading, setIsLoading] = useState(false);
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
+  const [tableFilters, setTableFilters] = useState<AnalysisTableFilters>(DEFAULT_ANALYSIS_FILTERS);
   const [progressMessage, setProgressMessage] = useState<string | null>(null);
+  const [progressPercent, setProgressPercent] = useState(0);
+  const [previews, setPreviews] = useState<Partial<Record<FileKind, FilePreview>>>({});
+  const [columnMappings, setColumnMappings] = useState<Partial<Record<FileKind, ColumnMapping>>>({});
+  const [mappingProfiles, setMappingProfiles] = useLocalStorage<MappingProfile[]>('stock-comparator.mapping-profiles', []);
+  const [appliedProfiles, setAppliedProfiles] = useState<Partial<Record<FileKind, string>>>({});
+  const [numberFormats, setNumberFormats] = useState<Partial<Record<FileKind, NumberFormat>>>({});
+  const profilesInput = useRef<HTMLInputElement>(null);
+  const [movementRules, setMovementRules] = useLocalStorage('stock-comparator.movement-rules', DEFAULT_MOVEMENT_RULES);
+  const [skuNormalization, setSkuNormalization] = useLocalStorage('stock-comparator.sku-normalization', DEFAULT_SKU_NORMALIZATION);
+  const [skuCrossReference, setSkuCrossReference] = useLocalStorage<SkuCrossReference[]>('stock-comparator.sku-cross-reference', []);
+  const [unitConversions, setUnitConversions] = useLocalStorage<UnitConversion[]>('stock-comparator.unit-conversions', []);
+  const [toleranceRules, setToleranceRules] = useLocalStorage<ToleranceRule[]>('stock-comparator.tolerance-rules', []);
+  const [transferRule, setTransferRule] = useLocalStorage('stock-comparator.transfer-rule', DEFAULT_TRANSFER_RULE);
+  const [inspection, setInspection] = useState<FileInspection>({ storageLocations: [], numberFormats: {} });
+  const previewedFiles = useRef<Partial<Record<FileKind, File>>>({});
+  const previewLoads = useRef<Partial<Record<FileKind, Promise<FilePreview>>>>({});
+  const inspections = useRef(0);
+  // Files are parsed once on selection, in the worker (to preview their sheets
+  // and columns and list their storage locations); the rows are reused on submit.
+  const reconcileWorker = useReconcileWorker();
+
+  const movementTitle = (category: string) => formatMovementTitle(movementRules, category);
+  const diferenciaValued = analysisResult?.diferenciaReport.some(item => item['Valor Diferencia'] !== undefined) ?? false;
+
+  const clearPreview = useCallback((kind: FileKind) => {
+    delete previewLoads.current[kind];
+    reconcileWorker.clear(kind);
+    setPreviews(prev => ({ ...prev, [kind]: undefined }));
+    setColumnMappings(prev => ({ ...prev, [kind]: undefined }));
+    setAppliedProfiles(prev => ({ ...prev, [kind]: undefined }));
+  }, [reconcileWorker]);
+
+  /**
+   * Reads `file` (from the given sheets, or the detected data sheet, with the
+   * given or detected header row) and proposes its column mapping. Only the
+   * latest load of each kind is applied.
+   */
+  const loadPreview: (kind: FileKind, file: File, options?: PreviewOptions) => void = useCallback((kind, file, options = {}) => {
+    const { sheetNames, headerRow } = options;
+    const previous = previewLoads.current[kind];
+    const load = reconcileWorker.preview(kind, file, options)
+      .then((preview): FilePreview => ({ file, headerRowOverride: headerRow, ...preview }));
+    previewLoads.current[kind] = load;
+    load.then(preview => {
+      if (previewLoads.current[kind] !== load) return;
+      const profile = suggestMappingProfile(mappingProfiles, kind, preview.headers);
+      setPreviews(prev => ({ ...prev, [kind]: preview }));
+      setColumnMappings(prev => ({ ...prev, [kind]: profile ? applyMappingProfile(profile, preview.headers) : preview.detection.mapping }));
+      setAppliedProfiles(prev => ({ ...prev, [kind]: profile?.id }));
+    }).catch((error: any) => {
+      if (previewLoads.current[kind] !== load) return;
+      if (error.name === 'AbortError') {
+        // Cancelling restarts the worker, which only reloads the files already
+        // previewed: keep the previous choice, or read a new file again.
+        if (previous && (sheetNames || headerRow !== undefined)) previewLoads.current[kind] = previous;
+        else loadPreview(kind, file);
+      } else if (previous && (sheetNames || headerRow !== undefined)) {
+        // A sheet or header-row choice that cannot be read keeps the previous preview.
+        previewLoads.current[kind] = previous;
+        toast({ variant: 'destructive', title: 'Selección no Válida', description: error.message });
+      } else {
+        setPreviews(prev => ({ ...prev, [kind]: undefined }));
+        toast({ variant: 'destructive', title: 'Error al Leer Archivo', description: error.message });
+      }
+    });
+  }, [mappingProfiles, reconcileWorker, toast]);
+
+  const sapFile = form.watch('sapFile')?.[0];
+  const wmsFile = form.watch('wmsFile')?.[0];
+  const adjustmentsFile = form.watch('adjustmentsFile')?.[0];
+
+  useEffect(() => {
+    const files: Record<FileKind, File | undefined> = { sap: sapFile, wms: wmsFile, adjustments: adjustmentsFile };
+    FILE_KINDS.forEach(kind => {
+      const file = files[kind];
+      if (previewedFiles.current[kind] === file) return;
+      previewedFiles.current[kind] = file;
+      if (file) {
+        loadPreview(kind, file);
+      } else {
+        clearPreview(kind);
+      }
+    });
+  }, [sapFile, wmsFile, adjustmentsFile, loadPreview, clearPreview]);
+
+  const renderSheetPicker = (kind: FileKind) => {
+    const preview = previews[kind];
+    if (!preview) return null;
+    return (
+      <SheetPicker
+        sheets={preview.sheets}
+        selected={preview.selectedSheets}
+        onChange={(sheetNames) => loadPreview(kind, preview.file, { sheetNames, headerRow: preview.headerRowOverride })}
+        headerRowOverride={preview.headerRowOverride}
+        onHeaderRowChange={(headerRow) => loadPreview(kind, preview.file, { sheetNames: preview.selectedSheets, headerRow })}
+      />
+    );
+  };
+
+  const saveMappingProfile = (kind: FileKind, name: string) => {
+    const preview = previews[kind];
+    if (!preview) return;
+    const profile = createMappingProfile(name, kind, preview.headers, columnMappings[kind] ?? {});
+    setMappingProfiles(prev => mergeMappingProfiles(prev, [profile]));
+    setAppliedProfiles(prev => ({ ...prev, [kind]: profile.id }));
+    toast({ title: 'Perfil Guardado', description: `El perfil "${profile.name}" se sugerirá para archivos ${FILE_LABELS[kind]} similares.` });
+  };
+
+  const exportMappingProfiles = () => {
+    downloadBlob(new Blob([serializeMappingProfiles(mappingProfiles)], { type: 'application/json' }), 'perfiles_mapeo.json');
+  };
+
+  const importMappingProfiles = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const imported = parseMappingProfiles(await file.text());
+      setMappingProfiles(prev => mergeMappingProfiles(prev, imported));
+      toast({ title: 'Perfiles Importados', description: `Se importaron ${imported.length} perfil(es) de mapeo.` });
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Error al Importar Perfiles', description: error.message });
+    } finally {
+      if (profilesInput.current) profilesInput.current.value = '';
+    }
+  };
+
+  useEffect(() => {
+    // Only the latest inspection is applied.
+    const inspectionId = ++inspections.current;
+    reconcileWorker.inspect(columnMappings)
+      .then(result => {
+        if (inspections.current === inspectionId) setInspection(result);
+      })
+      .catch((error: any) => {
+        // A cancelled analysis restarts the worker; the reloaded previews run a new inspection.
+        if (inspections.current !== inspectionId || error.name === 'AbortError') return;
+        toast({ variant: 'destructive', title: 'Error al Revisar Archivos', description: error.message });
+      });
+  }, [previews, columnMappings, reconcileWorker, toast]);
+  const availableLocations = inspection.storageLocations;
+
+  useEffect(() => {
+    if (availableLocations.length === 0) return;
+    const selected = form.getValues('storageLocations').filter(location => availableLocations.includes(location));
+    form.setValue('storageLocations', selected.length > 0 ? selected : availableLocations);
+  }, [availableLocations, form]);
+
+  const exportAnalysisView = async (rows: AnalysisReportRow[]) => {
+    try {
+      const workbook = await reconcileWorker.exportRows(rows, 'Análisis de Stock');
+      downloadBlob(new Blob([workbook], { type: XLSX_MIME_TYPE }), 'analisis_stock_filtrado.xlsx');
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Error al Exportar', description: error.message });
+    }
+  };
 
   async function onSubmit(values: FormData) {
     setIsLoading(true);
@@ -125,194 +330,50 @@ export function StockComparator() {
     }
 
     try {
-        const dataMap = new Map<string, any>();
-        const skuToCentroMap = new Map<string, string>();
-        const mermaByCentro = new Map<string, number>();
-        const vencimientoByCentro = new Map<string, number>();
-
-        const ensureSku = (sku: string) => {
-            if (!dataMap.has(sku)) {
-                dataMap.set(sku, {
-                    sku,
-                    sapQty: 0,
-                    wmsQty: 0,
-                    adjustment: 0,
-                    stockParaTraslado: 0,
-                    centro: '',
-                    nombreProd: '',
-                    descAlmacen: 'PT01'
-                });
-            }
-        };
-
-        // --- Process SAP Data ---
-        setProgressMessage('[Paso 1/6] - Leyendo archivo SAP...');
-        const sapData = await readFile(values.sapFile[0], "SAP");
-        
-        setProgressMessage('[Paso 2/6] - Procesando datos de SAP...');
-        const firstRowSap = sapData[0];
-        if (!firstRowSap) throw new Error('El archivo SAP está vacío o no tiene encabezados.');
-
-        const sapSkuHeader = findHeader(firstRowSap, SKU_SYNONYMS);
-        const sapQtyHeader = findHeader(firstRowSap, QTY_SYNONYMS);
-        const sapCentroHeader = findHeader(firstRowSap, CENTRO_SYNONYMS);
-        const sapDescHeader = findHeader(firstRowSap, NOMBRE_PROD_SYNONYMS);
-        const sapAreaSapHeader = findHeader(firstRowSap, WMS_AREA_SAP_SYNONYMS);
-
-        if (!sapSkuHeader || !sapQtyHeader || !sapAreaSapHeader || !sapCentroHeader) {
-            const missing = [!sapSkuHeader && 'SKU/Material', !sapQtyHeader && 'Cantidad/Stock', !sapAreaSapHeader && 'Almacén/AREA SAP', !sapCentroHeader && 'Centro'].filter(Boolean).join(', ');
-            throw new Error(`Columnas requeridas no encontradas en archivo SAP: ${missing}.`);
-        }
-
-        sapData.forEach((row) => {
-            const areaSap = String(row[sapAreaSapHeader!] || '').trim().toUpperCase();
-            if (areaSap !== 'PT01') return;
-
-            const sku = String(row[sapSkuHeader] || '').trim();
-            const qtyStr = String(row[sapQtyHeader] || '0').replace(/,/g, '');
-            const qty = parseFloat(qtyStr);
-
-            if (sku && !isNaN(qty)) {
-                ensureSku(sku);
-                const entry = dataMap.get(sku)!;
-                entry.sapQty += qty;
-
-                const centro = String(row[sapCentroHeader!] || '').trim();
-                if (centro && !skuToCentroMap.has(sku)) skuToCentroMap.set(sku, centro);
-                if (!entry.centro) entry.centro = centro;
-                if (!entry.nombreProd && sapDescHeader) entry.nombreProd = row[sapDescHeader];
-            }
-        });
-
-        // --- Process WMS Data ---
-        setProgressMessage('[Paso 3/6] - Leyendo y procesando archivo WMS...');
-        const wmsData = await readFile(values.wmsFile[0], "WMS");
-
-        const firstRowWms = wmsData[0];
-        if (!firstRowWms) throw new Error('El archivo WMS está vacío o no tiene encabezados.');
-
-        const wmsSkuHeader = findHeader(firstRowWms, SKU_SYNONYMS);
-        const wmsQtyHeader = findHeader(firstRowWms, QTY_SYNONYMS);
-        const wmsAreaHeader = findHeader(firstRowWms, AREA_SYNONYMS);
-        const wmsAreaSapHeader = findHeader(firstRowWms, WMS_AREA_SAP_SYNONYMS);
-        const wmsUbicacionHeader = findHeader(firstRowWms, UBICACION_SYNONYMS);
-
-        if (!wmsSkuHeader || !wmsQtyHeader || !wmsAreaHeader || !wmsUbicacionHeader || !wmsAreaSapHeader) {
-            const missing = [!wmsSkuHeader && 'SKU/Material', !wmsQtyHeader && 'Cantidad', !wmsAreaHeader && 'Área', !wmsUbicacionHeader && 'Ubicación', !wmsAreaSapHeader && 'AREA SAP/Almacén'].filter(Boolean).join(', ');
-            throw new Error(`Columnas requeridas no encontradas en archivo WMS: ${missing}.`);
+        setProgressPercent(0);
+        setProgressMessage('Leyendo archivos...');
+        // Read errors of the selected files surface here.
+        await previewLoads.current.sap;
+        await previewLoads.current.wms;
+        await previewLoads.current.adjustments;
+
+        const { result, workbook } = await reconcileWorker.reconcile(
+          {
+            priceFile: values.priceFile?.[0],
+            options: {
+              storageLocations: values.storageLocations,
+              lotLevel: values.lotLevel,
+              movementRules,
+              columnMappings,
+              numberFormats,
+              skuNormalization,
+              skuCrossReference,
+              unitConversions,
+              toleranceRules,
+              transferRule,
+            },
+          },
+          (message, percent) => {
+            setProgressMessage(message);
+            setProgressPercent(percent);
+          }
+        );
+        setAnalysisResult(result);
+        setTableFilters(DEFAULT_ANALYSIS_FILTERS);
+
+        const unparseable = FILE_KINDS
+          .filter(kind => result.unparseableQuantities[kind])
+          .map(kind => `${FILE_LABELS[kind]}: ${result.unparseableQuantities[kind]}`);
+        if (unparseable.length > 0) {
+          toast({
+            variant: 'destructive',
+            title: 'Cantidades no reconocidas',
+            description: `Se omitieron filas con cantidades que no son números (${unparseable.join(', ')}). Revisa el formato numérico de cada archivo y el panel Calidad de datos.`,
+          });
         }
 
-        wmsData.forEach((row) => {
-            const sku = String(row[wmsSkuHeader!] || '').trim();
-            const qtyStr = String(row[wmsQtyHeader!] || '0').replace(/,/g, '');
-            const qty = parseFloat(qtyStr);
-
-            if (!sku || isNaN(qty)) return;
-
-            ensureSku(sku);
-            const entry = dataMap.get(sku)!;
-
-            const areaSap = String(row[wmsAreaSapHeader!] || '').trim().toUpperCase();
-            if (areaSap === 'PT01') {
-                entry.wmsQty += qty;
-            }
-
-            const area = String(row[wmsAreaHeader!] || '').trim().toUpperCase();
-            const ubicacion = String(row[wmsUbicacionHeader!] || '').trim();
-            if (area.startsWith("AREA STAGE") && ubicacion.startsWith("7")) {
-                entry.stockParaTraslado += qty;
-            }
-        });
-
-        // --- Process Adjustments Data ---
-        if (values.adjustmentsFile?.[0]) {
-            setProgressMessage('[Paso 4/6] - Leyendo y procesando archivo de Ajustes...');
-            const adjustmentsData = await readFile(values.adjustmentsFile[0], "Ajustes");
-            const firstRowAdj = adjustmentsData[0];
-            if (firstRowAdj) {
-                const adjSkuHeader = findHeader(firstRowAdj, SKU_SYNONYMS);
-                const adjQtyHeader = findHeader(firstRowAdj, QTY_SYNONYMS);
-                const adjClaseMovHeader = findHeader(firstRowAdj, CLASE_MOV_SYNONYMS);
-
-                if (adjSkuHeader && adjQtyHeader && adjClaseMovHeader) {
-                    const difInvMovs = ['Z59', 'Z60', 'Z65', 'Z66'];
-                    adjustmentsData.forEach((row) => {
-                        const sku = String(row[adjSkuHeader!] || '').trim();
-                        const qtyStr = String(row[adjQtyHeader!] || '0').replace(/,/g, '');
-                        const qty = parseFloat(qtyStr);
-                        const claseMov = String(row[adjClaseMovHeader!] || '').trim().toUpperCase();
-                        if (sku && !isNaN(qty) && claseMov) {
-                            const centro = skuToCentroMap.get(sku) || 'INDEFINIDO';
-                            if (difInvMovs.includes(claseMov)) {
-                                ensureSku(sku);
-                                dataMap.get(sku)!.adjustment += qty;
-                            } else if (claseMov === 'Z42') {
-                                mermaByCentro.set(centro, (mermaByCentro.get(centro) || 0) + qty);
-                            } else if (claseMov === 'Z44') {
-                                vencimientoByCentro.set(centro, (vencimientoByCentro.get(centro) || 0) + qty);
-                            }
-                        }
-                    });
-                }
-            }
-        }
-        
-        // --- Final Report Generation ---
-        setProgressMessage('[Paso 5/6] - Compilando reporte final...');
-        const finalReport = Array.from(dataMap.values()).map(entry => {
-            if (!entry.centro) {
-                entry.centro = skuToCentroMap.get(entry.sku) || 'INDEFINIDO';
-            }
-            return {
-                'Centro': entry.centro,
-                'Descripción (Almacén)': entry.descAlmacen,
-                'SKU': entry.sku,
-                'Nombre Prod': entry.nombreProd,
-                'Stock SAP': entry.sapQty,
-                'Stock WMS': entry.wmsQty,
-                'Diferencia': entry.wmsQty - entry.sapQty,
-                'Ajuste Mensual (Dif. Inventario)': entry.adjustment,
-                'Stock para Traslado': entry.stockParaTraslado
-            };
-        }).filter(entry => entry['Stock SAP'] !== 0 || entry['Stock WMS'] !== 0 || entry['Ajuste Mensual (Dif. Inventario)'] !== 0);
-
-        const mermaReport = Array.from(mermaByCentro.entries()).map(([centro, cantidad]) => ({ 'Centro': centro, 'Suma de Cantidad': cantidad }));
-        const vencimientoReport = Array.from(vencimientoByCentro.entries()).map(([centro, cantidad]) => ({ 'Centro': centro, 'Suma de Cantidad': cantidad }));
-        
-        const summaryByCentro = new Map<string, number>();
-        finalReport.forEach(item => {
-            const centro = item['Centro'] || 'INDEFINIDO';
-            const ajuste = item['Ajuste Mensual (Dif. Inventario)'];
-            summaryByCentro.set(centro, (summaryByCentro.get(centro) || 0) + ajuste);
-        });
-
-        const chartColors = ['var(--color-chart-1)', 'var(--color-chart-2)', 'var(--color-chart-3)', 'var(--color-chart-4)', 'var(--color-chart-5)'];
-        const summaryChartData = Array.from(summaryByCentro.entries()).map(([name, value], index) => ({ name, value: Math.abs(value), fill: chartColors[index % chartColors.length] })).filter(item => item.value > 0);
-        const diferenciaReport = Array.from(summaryByCentro.entries()).map(([centro, diferencia]) => ({ 'Centro': centro, 'Diferencia': diferencia })).filter(item => item.Diferencia !== 0);
-
-        setAnalysisResult({ analysisReport: finalReport, mermaReport, vencimientoReport, summaryChartData, diferenciaReport });
-        
-        // --- Create and download Excel file ---
-        setProgressMessage('[Paso 6/6] - Creando archivo Excel para descarga...');
-        const newWorkbook = XLSX.utils.book_new();
-        const mainWorksheet = XLSX.utils.json_to_sheet(finalReport);
-        XLSX.utils.book_append_sheet(newWorkbook, mainWorksheet, "Análisis de Stock");
-        if (mermaReport.length > 0) {
-          const mermaWorksheet = XLSX.utils.json_to_sheet(mermaReport);
-          XLSX.utils.book_append_sheet(newWorkbook, mermaWorksheet, "Merma (Z42)");
-        }
-        if (vencimientoReport.length > 0) {
-            const vencimientoWorksheet = XLSX.utils.json_to_sheet(vencimientoReport);
-            XLSX.utils.book_append_sheet(newWorkbook, vencimientoWorksheet, "Vencimiento (Z44)");
-        }
-
-        const outputBase64 = XLSX.write(newWorkbook, { bookType: 'xlsx', type: 'base64' });
-        const link = document.createElement('a');
-        link.href = `data:application/vnd.openxmlformats-officedocument.spreadsheetml.sheet;base64,${outputBase64}`;
-        link.download = 'analisis_stock.xlsx';
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
+        // --- Download Excel file ---
+        downloadBlob(new Blob([workbook], { type: XLSX_MIME_TYPE }), 'analisis_stock.xlsx');
 
         toast({
           title: 'Análisis Completado',
@@ -321,6 +382,11 @@ export function StockComparator() {
         setProgressMessage(null);
 
     } catch (error: any) {
+      if (error.name === 'AbortError') {
+        setProgressMessage(null);
+        toast({ title: 'Análisis Cancelado', description: 'Puedes ajustar la configuración y volver a analizar.' });
+        return;
+      }
       console.error(error);
       const errorMessage = error.message || 'Ocurrió un problema al procesar los archivos.';
       setProgressMessage(`Error: ${errorMessage}`);
@@ -356,12 +422,13 @@ export function StockComparator() {
                     <FormControl>
                       <Input
                         type="file"
-                        accept=".xlsx"
+                        accept={SUPPORTED_FILE_EXTENSIONS.join(',')}
                         {...form.register('sapFile', {
                           required: 'Este archivo es obligatorio.',
                         })}
                       />
                     </FormControl>
+                    {renderSheetPicker('sap')}
                     <FormMessage />
                   </FormItem>
                 )}
@@ -375,12 +442,13 @@ export function StockComparator() {
                     <FormControl>
                       <Input
                         type="file"
-                        accept=".xlsx"
+                        accept={SUPPORTED_FILE_EXTENSIONS.join(',')}
                         {...form.register('wmsFile', {
                           required: 'Este archivo es obligatorio.',
                         })}
                       />
                     </FormControl>
+                    {renderSheetPicker('wms')}
                     <FormMessage />
                   </FormItem>
                 )}
@@ -394,10 +462,143 @@ export function StockComparator() {
                     <FormControl>
                       <Input
                         type="file"
-                        accept=".xlsx"
+                        accept={SUPPORTED_FILE_EXTENSIONS.join(',')}
                         {...form.register('adjustmentsFile')}
                       />
                     </FormControl>
+                    {renderSheetPicker('adjustments')}
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="priceFile"
+                render={() => (
+                  <FormItem>
+                    <FormLabel>Lista de Precios (Opcional)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="file"
+                        accept={SUPPORTED_FILE_EXTENSIONS.join(',')}
+                        {...form.register('priceFile')}
+                      />
+                    </FormControl>
+                    <FormDescription>
+                      Columnas Material y Precio por unidad base. Sin lista se usa la columna de valor del archivo SAP, si existe.
+                    </FormDescription>
+                  </FormItem>
+                )}
+              />
+              <div className="space-y-4 rounded-lg border p-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="space-y-0.5">
+                    <p className="text-sm font-medium">Mapeo de Columnas</p>
+                    <p className="text-sm text-muted-foreground">
+                      {FILE_KINDS.some(kind => previews[kind])
+                        ? 'Revisa las columnas detectadas en cada archivo y corrige las que no correspondan.'
+                        : `Sube los archivos para revisar las columnas detectadas. Perfiles guardados: ${mappingProfiles.length}.`}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button type="button" variant="outline" size="sm" onClick={() => profilesInput.current?.click()}>
+                      <Upload className="mr-2 h-4 w-4" />
+                      Importar
+                    </Button>
+                    <Button type="button" variant="outline" size="sm" disabled={mappingProfiles.length === 0} onClick={exportMappingProfiles}>
+                      <Download className="mr-2 h-4 w-4" />
+                      Exportar
+                    </Button>
+                    <input
+                      ref={profilesInput}
+                      type="file"
+                      accept=".json,application/json"
+                      className="hidden"
+                      onChange={(event) => importMappingProfiles(event.target.files?.[0])}
+                    />
+                  </div>
+                </div>
+                {FILE_KINDS.map(kind => {
+                  const preview = previews[kind];
+                  if (!preview) return null;
+                  return (
+                    <ColumnMappingStep
+                      key={kind}
+                      kind={kind}
+                      headers={preview.headers}
+                      detection={preview.detection}
+                      mapping={columnMappings[kind] ?? {}}
+                      onChange={(mapping) => {
+                        setColumnMappings(prev => ({ ...prev, [kind]: mapping }));
+                        setAppliedProfiles(prev => ({ ...prev, [kind]: undefined }));
+                      }}
+                      profiles={mappingProfiles.filter(profile => profile.kind === kind)}
+                      appliedProfileId={appliedProfiles[kind]}
+                      onApplyProfile={(profile) => {
+                        setColumnMappings(prev => ({ ...prev, [kind]: applyMappingProfile(profile, preview.headers) }));
+                        setAppliedProfiles(prev => ({ ...prev, [kind]: profile.id }));
+                      }}
+                      onSaveProfile={(name) => saveMappingProfile(kind, name)}
+                      onDeleteProfile={(profile) => {
+                        setMappingProfiles(prev => prev.filter(item => item.id !== profile.id));
+                        setAppliedProfiles(prev => ({ ...prev, [kind]: undefined }));
+                      }}
+                      numberFormat={numberFormats[kind] ?? 'auto'}
+                      detectedNumberFormat={inspection.numberFormats[kind]}
+                      onNumberFormatChange={(format) => setNumberFormats(prev => ({ ...prev, [kind]: format }))}
+                    />
+                  );
+                })}
+              </div>
+              {availableLocations.length > 0 && (
+                <FormField
+                  control={form.control}
+                  name="storageLocations"
+                  rules={{ validate: (value) => value.length > 0 || 'Selecciona al menos un almacén.' }}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Almacenes a Conciliar</FormLabel>
+                      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                        {availableLocations.map(location => (
+                          <label key={location} className="flex items-center gap-2 text-sm">
+                            <Checkbox
+                              checked={field.value.includes(location)}
+                              onCheckedChange={(checked) =>
+                                field.onChange(
+                                  checked
+                                    ? [...field.value, location]
+                                    : field.value.filter(value => value !== location)
+                                )
+                              }
+                            />
+                            {location}
+                          </label>
+                        ))}
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              <MovementRulesEditor rules={movementRules} onChange={setMovementRules} />
+              <SkuNormalizationEditor rules={skuNormalization} onChange={setSkuNormalization} />
+              <SkuCrossReferenceEditor entries={skuCrossReference} onChange={setSkuCrossReference} />
+              <UnitConversionEditor entries={unitConversions} onChange={setUnitConversions} />
+              <ToleranceRulesEditor rules={toleranceRules} onChange={setToleranceRules} />
+              <TransferRuleEditor rule={transferRule} onChange={setTransferRule} />
+              <FormField
+                control={form.control}
+                name="lotLevel"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center justify-between gap-4 rounded-lg border p-3">
+                    <div className="space-y-0.5">
+                      <FormLabel>Conciliar por Lote y Vencimiento</FormLabel>
+                      <FormDescription>
+                        Requiere columnas de Lote en SAP y WMS; la fecha de vencimiento se compara si existe.
+                      </FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
                   </FormItem>
                 )}
               />
@@ -411,8 +612,19 @@ export function StockComparator() {
                   'Analizar y Descargar'
                 )}
               </Button>
-               {isLoading && progressMessage && (
-                <p className="text-center text-sm text-muted-foreground pt-4">{progressMessage}</p>
+              {isLoading && progressMessage && (
+                <div className="space-y-2 pt-4">
+                  <Progress value={progressPercent} aria-label="Progreso del análisis" />
+                  <div className="flex items-center justify-between gap-4">
+                    <p className="text-sm text-muted-foreground">
+                      {progressMessage} ({Math.round(progressPercent)}%)
+                    </p>
+                    <Button type="button" variant="ghost" size="sm" onClick={() => reconcileWorker.cancel()}>
+                      <X className="mr-2 h-4 w-4" />
+                      Cancelar
+                    </Button>
+                  </div>
+                </div>
               )}
             </form>
           </Form>
@@ -421,10 +633,37 @@ export function StockComparator() {
       
       {analysisResult && (
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
-            <Card>
+            <Card className="lg:col-span-3">
+                <CardHeader>
+                    <CardTitle>Líneas por Estado</CardTitle>
+                    <CardDescription>Clasificación de cada línea del análisis según su diferencia y las tolerancias configuradas.</CardDescription>
+                </CardHeader>
+                <CardContent className="grid grid-cols-2 gap-4 sm:grid-cols-4 lg:grid-cols-7">
+                    {analysisResult.statusSummary.map(item => (
+                        <div key={item.Estado} className="rounded-lg border p-3">
+                            <p className="text-sm text-muted-foreground">{item.Estado}</p>
+                            <p className="text-2xl font-semibold">{item['Cantidad de Líneas']}</p>
+                        </div>
+                    ))}
+                </CardContent>
+            </Card>
+            <AccuracyKpiPanel rows={analysisResult.accuracyReport} />
+            <AnalysisDashboard result={analysisResult} onFilter={setTableFilters} />
+            <AnalysisReportTable
+                rows={analysisResult.analysisReport}
+                currency={analysisResult.currency}
+                movementSkus={analysisResult.movementSkus}
+                filters={tableFilters}
+                onFiltersChange={setTableFilters}
+                onExport={exportAnalysisView}
+            />
+            <Card className="lg:col-span-2">
                 <CardHeader>
                     <CardTitle>Resumen de Diferencias por Centro</CardTitle>
-                    <CardDescription>Total de diferencias de inventario por centro.</CardDescription>
+                    <CardDescription>
+                        Diferencia WMS − SAP, ajustes de inventario contabilizados y diferencia residual (diferencia menos ajustes) por centro.
+                        {diferenciaValued && ` Valor residual total: ${formatAmount(analysisResult.diferenciaReport.reduce((sum, item) => sum + (item['Valor Residual'] ?? 0), 0), analysisResult.currency)}.`}
+                    </CardDescription>
                 </CardHeader>
                 <CardContent>
                     <ScrollArea className="h-72">
@@ -433,6 +672,9 @@ export function StockComparator() {
                                 <TableRow>
                                     <TableHead>Centro</TableHead>
                                     <TableHead className="text-right">Diferencia</TableHead>
+                                    <TableHead className="text-right">Ajustes</TableHead>
+                                    <TableHead className="text-right">Residual</TableHead>
+                                    {diferenciaValued && <TableHead className="text-right">Valor Residual</TableHead>}
                                 </TableRow>
                             </TableHeader>
                             <TableBody>
@@ -440,10 +682,13 @@ export function StockComparator() {
                                     <TableRow key={item.Centro}>
                                         <TableCell>{item.Centro}</TableCell>
                                         <TableCell className="text-right">{item.Diferencia}</TableCell>
+                                        <TableCell className="text-right">{item['Ajuste Mensual (Dif. Inventario)']}</TableCell>
+                                        <TableCell className="text-right">{item['Diferencia Residual']}</TableCell>
+                                        {diferenciaValued && <TableCell className="text-right">{formatAmount(item['Valor Residual'] ?? 0, analysisResult.currency)}</TableCell>}
                                     </TableRow>
                                 )) : (
                                     <TableRow>
-                                        <TableCell colSpan={2} className="h-24 text-center">No hay datos</TableCell>
+                                        <TableCell colSpan={diferenciaValued ? 5 : 4} className="h-24 text-center">No hay datos</TableCell>
                                     </TableRow>
                                 )}
                             </TableBody>
@@ -452,64 +697,101 @@ export function StockComparator() {
                 </CardContent>
             </Card>
 
-            <Card>
-                <CardHeader>
-                    <CardTitle>Ajustes por Merma (Z42) por Centro</CardTitle>
-                </CardHeader>
-                <CardContent>
-                    <ScrollArea className="h-72">
-                        <Table>
-                            <TableHeader>
-                                <TableRow>
-                                    <TableHead>Centro</TableHead>
-                                    <TableHead className="text-right">Cantidad</TableHead>
-                                </TableRow>
-                            </TableHeader>
-                            <TableBody>
-                                {analysisResult.mermaReport.length > 0 ? analysisResult.mermaReport.map(item => (
-                                    <TableRow key={item.Centro}>
-                                        <TableCell>{item.Centro}</TableCell>
-                                        <TableCell className="text-right">{item['Suma de Cantidad']}</TableCell>
-                                    </TableRow>
-                                )) : (
+            <CentroQuantityCard
+                title={`Ajustes por ${movementTitle('Merma')} por Centro`}
+                rows={analysisResult.mermaReport}
+                currency={analysisResult.currency}
+            />
+            <CentroQuantityCard
+                title={`Ajustes por ${movementTitle('Vencimiento')} por Centro`}
+                rows={analysisResult.vencimientoReport}
+                currency={analysisResult.currency}
+            />
+            {analysisResult.customMovementReports.map(report => (
+                <CentroQuantityCard
+                    key={report.category}
+                    title={`Ajustes por ${movementTitle(report.category)} por Centro`}
+                    rows={report.rows}
+                    currency={analysisResult.currency}
+                />
+            ))}
+            <DataQualityPanel issues={analysisResult.dataQualityReport} />
+            {analysisResult.unmappedWmsReport.length > 0 && (
+                <Card className="lg:col-span-3">
+                    <CardHeader>
+                        <CardTitle>Artículos WMS sin Equivalencia</CardTitle>
+                        <CardDescription>Códigos WMS que no son material SAP ni figuran en la tabla de equivalencias; no se incluyen en el análisis.</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        <ScrollArea className="h-72">
+                            <Table>
+                                <TableHeader>
                                     <TableRow>
-                                        <TableCell colSpan={2} className="h-24 text-center">No hay datos</TableCell>
-                                    </TableRow>
-                                )}
-                            </TableBody>
-                        </Table>
-                    </ScrollArea>
-                </CardContent>
-            </Card>
-            <Card>
-                <CardHeader>
-                    <CardTitle>Ajustes por Vencimiento (Z44) por Centro</CardTitle>
-                </CardHeader>
-                <CardContent>
-                     <ScrollArea className="h-72">
-                        <Table>
-                            <TableHeader>
-                                <TableRow>
-                                    <TableHead>Centro</TableHead>
-                                    <TableHead className="text-right">Cantidad</TableHead>
-                                </TableRow>
-                            </TableHeader>
-                            <TableBody>
-                                {analysisResult.vencimientoReport.length > 0 ? analysisResult.vencimientoReport.map(item => (
-                                    <TableRow key={item.Centro}>
-                                        <TableCell>{item.Centro}</TableCell>
-                                        <TableCell className="text-right">{item['Suma de Cantidad']}</TableCell>
+                                        <TableHead>Almacén</TableHead>
+                                        <TableHead>SKU WMS</TableHead>
+                                        <TableHead className="text-right">Cantidad</TableHead>
+                                        <TableHead className="text-right">Filas</TableHead>
                                     </TableRow>
-                                )) : (
+                                </TableHeader>
+                                <TableBody>
+                                    {analysisResult.unmappedWmsReport.map(item => (
+                                        <TableRow key={`${item['Descripción (Almacén)']}|${item['SKU WMS']}`}>
+                                            <TableCell>{item['Descripción (Almacén)']}</TableCell>
+                                            <TableCell>{item['SKU WMS']}</TableCell>
+                                            <TableCell className="text-right">{item.Cantidad}</TableCell>
+                                            <TableCell className="text-right">{item.Filas}</TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </ScrollArea>
+                    </CardContent>
+                </Card>
+            )}
+            {analysisResult.lotReport && (
+                <Card className="lg:col-span-3">
+                    <CardHeader>
+                        <CardTitle>Lotes con Discrepancias</CardTitle>
+                        <CardDescription>Lotes presentes en un solo sistema, con vencimiento distinto o con diferencia de cantidad.</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        <ScrollArea className="h-72">
+                            <Table>
+                                <TableHeader>
                                     <TableRow>
-                                        <TableCell colSpan={2} className="h-24 text-center">No hay datos</TableCell>
+                                        <TableHead>Centro</TableHead>
+                                        <TableHead>Almacén</TableHead>
+                                        <TableHead>SKU</TableHead>
+                                        <TableHead>Lote</TableHead>
+                                        <TableHead className="text-right">Diferencia</TableHead>
+                                        <TableHead>Venc. SAP</TableHead>
+                                        <TableHead>Venc. WMS</TableHead>
+                                        <TableHead>Estado</TableHead>
                                     </TableRow>
-                                )}
-                            </TableBody>
-                        </Table>
-                    </ScrollArea>
-                </CardContent>
-            </Card>
+                                </TableHeader>
+                                <TableBody>
+                                    {analysisResult.lotReport.some(item => item.Estado !== 'OK') ? analysisResult.lotReport.filter(item => item.Estado !== 'OK').map(item => (
+                                        <TableRow key={`${item.Centro}|${item['Descripción (Almacén)']}|${item.SKU}|${item.Lote}`}>
+                                            <TableCell>{item.Centro}</TableCell>
+                                            <TableCell>{item['Descripción (Almacén)']}</TableCell>
+                                            <TableCell>{item.SKU}</TableCell>
+                                            <TableCell>{item.Lote}</TableCell>
+                                            <TableCell className="text-right">{item.Diferencia}</TableCell>
+                                            <TableCell>{item['Vencimiento SAP']}</TableCell>
+                                            <TableCell>{item['Vencimiento WMS']}</TableCell>
+                                            <TableCell>{item.Estado}</TableCell>
+                                        </TableRow>
+                                    )) : (
+                                        <TableRow>
+                                            <TableCell colSpan={8} className="h-24 text-center">No hay discrepancias por lote</TableCell>
+                                        </TableRow>
+                                    )}
+                                </TableBody>
+                            </Table>
+                        </ScrollArea>
+                    </CardContent>
+                </Card>
+            )}
         </div>
       )}
     </div>
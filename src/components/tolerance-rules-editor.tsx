@@ -0,0 +1,157 @@
+'use client';
+
+import { Gauge, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  TOLERANCE_SCOPE_LABELS,
+  type ToleranceRule,
+  type ToleranceScope,
+} from '@/lib/tolerances';
+
+type ToleranceRulesEditorProps = {
+  rules: ToleranceRule[];
+  onChange: (rules: ToleranceRule[]) => void;
+};
+
+// An empty field means "no limit of this kind".
+const parseLimit = (value: string): number | undefined => {
+  const limit = parseFloat(value);
+  return isNaN(limit) || limit < 0 ? undefined : limit;
+};
+
+export function ToleranceRulesEditor({ rules, onChange }: ToleranceRulesEditorProps) {
+  const updateRule = (index: number, patch: Partial<ToleranceRule>) => {
+    onChange(rules.map((rule, i) => (i === index ? { ...rule, ...patch } : rule)));
+  };
+
+  const limitInput = (rule: ToleranceRule, index: number, field: 'maxUnits' | 'maxPercent' | 'maxValue') => (
+    <Input
+      type="number"
+      step="any"
+      min={0}
+      placeholder="Sin límite"
+      value={rule[field] ?? ''}
+      onChange={(event) => updateRule(index, { [field]: parseLimit(event.target.value) })}
+    />
+  );
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button type="button" variant="outline" className="w-full">
+          <Gauge className="mr-2 h-4 w-4" />
+          Tolerancias de Diferencia ({rules.length})
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Tolerancias de Diferencia</DialogTitle>
+          <DialogDescription>
+            Una diferencia queda dentro de tolerancia cuando cumple todos los límites de su regla. Se aplica la regla
+            del grupo de artículos, si no la del centro y si no la general. El límite de valor requiere precios.
+          </DialogDescription>
+        </DialogHeader>
+        <ScrollArea className="h-96 pr-4">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-44">Alcance</TableHead>
+                <TableHead>Centro / Grupo</TableHead>
+                <TableHead className="w-28">Unidades</TableHead>
+                <TableHead className="w-28">% Stock SAP</TableHead>
+                <TableHead className="w-28">Valor</TableHead>
+                <TableHead className="w-12" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rules.map((rule, index) => (
+                <TableRow key={index}>
+                  <TableCell>
+                    <Select
+                      value={rule.scope}
+                      onValueChange={(scope) => updateRule(index, { scope: scope as ToleranceScope })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(TOLERANCE_SCOPE_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      value={rule.value}
+                      disabled={rule.scope === 'todos'}
+                      placeholder={rule.scope === 'centro' ? 'Ej. 1000' : rule.scope === 'grupo' ? 'Ej. BEBIDAS' : undefined}
+                      onChange={(event) => updateRule(index, { value: event.target.value.toUpperCase() })}
+                    />
+                  </TableCell>
+                  <TableCell>{limitInput(rule, index, 'maxUnits')}</TableCell>
+                  <TableCell>{limitInput(rule, index, 'maxPercent')}</TableCell>
+                  <TableCell>{limitInput(rule, index, 'maxValue')}</TableCell>
+                  <TableCell>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      aria-label={`Eliminar tolerancia ${TOLERANCE_SCOPE_LABELS[rule.scope]} ${rule.value}`}
+                      onClick={() => onChange(rules.filter((_, i) => i !== index))}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {rules.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={6} className="h-24 text-center">
+                    Sin tolerancias: toda diferencia distinta de cero se clasifica como Sobrante o Faltante.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </ScrollArea>
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="secondary"
+            onClick={() => onChange([...rules, { scope: 'todos', value: '', maxUnits: 0 }])}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Agregar tolerancia
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
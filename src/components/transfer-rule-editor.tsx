@@ -0,0 +1,83 @@
+'use client';
+
+import { RotateCcw, Truck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { parseAffixList } from '@/lib/sku-normalization';
+import { DEFAULT_TRANSFER_RULE, type TransferStockRule } from '@/lib/transfer-rules';
+
+type TransferRuleEditorProps = {
+  rule: TransferStockRule;
+  onChange: (rule: TransferStockRule) => void;
+};
+
+export function TransferRuleEditor({ rule, onChange }: TransferRuleEditorProps) {
+  const update = (patch: Partial<TransferStockRule>) => onChange({ ...rule, ...patch });
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button type="button" variant="outline" className="w-full">
+          <Truck className="mr-2 h-4 w-4" />
+          Stock para Traslado
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Stock para Traslado</DialogTitle>
+          <DialogDescription>
+            Filas del WMS cuya área empieza con alguno de los prefijos y cuya ubicación coincide con alguno de los
+            patrones. En los patrones, * reemplaza cualquier texto y ? un carácter.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <label className="flex items-center justify-between gap-4 text-sm">
+            Prefijos de área
+            <Input
+              key={rule.areaPrefixes.join(',')}
+              className="w-60"
+              placeholder="Ej. AREA STAGE"
+              defaultValue={rule.areaPrefixes.join(', ')}
+              onBlur={(event) => update({ areaPrefixes: parseAffixList(event.target.value.toUpperCase()) })}
+            />
+          </label>
+          <label className="flex items-center justify-between gap-4 text-sm">
+            Patrones de ubicación
+            <Input
+              key={rule.locationPatterns.join(',')}
+              className="w-60"
+              placeholder="Ej. 7*, STG-??"
+              defaultValue={rule.locationPatterns.join(', ')}
+              onBlur={(event) => update({ locationPatterns: parseAffixList(event.target.value.toUpperCase()) })}
+            />
+          </label>
+          <label className="flex items-center justify-between gap-4 text-sm">
+            <span>
+              Tratar como diferencia explicada
+              <span className="block text-xs text-muted-foreground">
+                Las líneas cuya diferencia cubre el stock para traslado se clasifican como &quot;Explicada por traslado&quot;.
+              </span>
+            </span>
+            <Switch checked={rule.explainsDifference} onCheckedChange={(explainsDifference) => update({ explainsDifference })} />
+          </label>
+        </div>
+        <DialogFooter>
+          <Button type="button" variant="ghost" onClick={() => onChange(DEFAULT_TRANSFER_RULE)}>
+            <RotateCcw className="mr-2 h-4 w-4" />
+            Restaurar predeterminada
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
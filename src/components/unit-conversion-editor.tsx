@@ -0,0 +1,67 @@
+'use client';
+
+import { Ruler } from 'lucide-react';
+import { ReferenceTableEditor } from '@/components/reference-table-editor';
+import { Input } from '@/components/ui/input';
+import { TableCell, TableHead } from '@/components/ui/table';
+import { normalizeUnit, parseUnitConversionRows, type UnitConversion } from '@/lib/unit-conversion';
+
+type UnitConversionEditorProps = {
+  entries: UnitConversion[];
+  onChange: (entries: UnitConversion[]) => void;
+};
+
+export function UnitConversionEditor({ entries, onChange }: UnitConversionEditorProps) {
+  return (
+    <ReferenceTableEditor
+      entries={entries}
+      onChange={onChange}
+      icon={Ruler}
+      title="Conversión de Unidades"
+      description={
+        'Requiere una columna de Unidad de Medida en los archivos. Cada fila indica cuántas unidades base contiene ' +
+        'una unidad alternativa del material (p. ej. 1 CJ = 12 UN); las cantidades se comparan en la unidad de SAP.'
+      }
+      searchPlaceholder="Buscar material..."
+      matchesSearch={(entry, query) => entry.sku.toUpperCase().includes(query)}
+      headers={
+        <>
+          <TableHead>Material</TableHead>
+          <TableHead className="w-28">Unidad</TableHead>
+          <TableHead className="w-28">Factor</TableHead>
+          <TableHead className="w-28">Unidad base</TableHead>
+        </>
+      }
+      renderCells={(entry, update) => (
+        <>
+          <TableCell>
+            <Input value={entry.sku} onChange={(event) => update({ sku: event.target.value })} />
+          </TableCell>
+          <TableCell>
+            <Input value={entry.unit} onChange={(event) => update({ unit: normalizeUnit(event.target.value) })} />
+          </TableCell>
+          <TableCell>
+            <Input
+              type="number"
+              step="any"
+              min={0}
+              value={entry.factor}
+              onChange={(event) => update({ factor: parseFloat(event.target.value) || 0 })}
+            />
+          </TableCell>
+          <TableCell>
+            <Input value={entry.baseUnit} onChange={(event) => update({ baseUnit: normalizeUnit(event.target.value) })} />
+          </TableCell>
+        </>
+      )}
+      deleteLabel={entry => `Eliminar conversión ${entry.sku} ${entry.unit}`}
+      addLabel="Agregar conversión"
+      createEntry={() => ({ sku: '', unit: '', baseUnit: 'UN', factor: 1 })}
+      parseRows={parseUnitConversionRows}
+      // Imported rows replace existing entries for the same material and unit.
+      entryKey={entry => `${entry.sku}|${entry.unit}`}
+      importedTitle="Conversiones importadas"
+      importedDescription={(count, fileName) => `${count} conversión(es) cargadas desde ${fileName}.`}
+    />
+  );
+}
@@ -0,0 +1,31 @@
+import * as React from "react"
+
+/**
+ * `useState` backed by `localStorage`. The stored value is read after mount so
+ * server and client renders agree; unreadable values fall back to `initialValue`.
+ */
+export function useLocalStorage<T>(key: string, initialValue: T) {
+  const [value, setValue] = React.useState<T>(initialValue)
+  const [loaded, setLoaded] = React.useState(false)
+
+  React.useEffect(() => {
+    try {
+      const stored = window.localStorage.getItem(key)
+      if (stored !== null) setValue(JSON.parse(stored) as T)
+    } catch (error) {
+      console.error(`Error reading localStorage key "${key}"`, error)
+    }
+    setLoaded(true)
+  }, [key])
+
+  React.useEffect(() => {
+    if (!loaded) return
+    try {
+      window.localStorage.setItem(key, JSON.stringify(value))
+    } catch (error) {
+      console.error(`Error writing localStorage key "${key}"`, error)
+    }
+  }, [key, value, loaded])
+
+  return [value, setValue] as const
+}
@@ -0,0 +1,101 @@
+import * as React from "react"
+import type { ColumnMapping, FileKind } from "@/lib/column-headers"
+import type {
+  FileInspection,
+  PreviewRequest,
+  ReconcileJob,
+  ReconcileOutput,
+  SheetPreview,
+  WorkerRequest,
+  WorkerResponse,
+} from "@/lib/reconcile.worker"
+
+type PendingJob = {
+  resolve: (value: unknown) => void
+  reject: (error: Error) => void
+  onProgress?: (message: string, percent: number) => void
+}
+
+/** Error of the jobs pending when `cancel` is called; check `error.name === 'AbortError'`. */
+const cancelledError = () => new DOMException("Análisis cancelado.", "AbortError")
+
+/**
+ * Runs file previews and reconciliations in the reconciliation Web Worker.
+ * `cancel` terminates the worker, rejecting its pending jobs, and starts a
+ * new one that reloads the files previewed so far.
+ */
+export function useReconcileWorker() {
+  const worker = React.useRef<Worker | null>(null)
+  const jobs = React.useRef(new Map<number, PendingJob>())
+  const nextJobId = React.useRef(1)
+  // Latest successful preview of each file, replayed after a restart.
+  const loadedPreviews = React.useRef<Partial<Record<FileKind, PreviewRequest>>>({})
+
+  React.useEffect(() => () => {
+    worker.current?.terminate()
+    worker.current = null
+  }, [])
+
+  return React.useMemo(() => {
+    const getWorker = (): Worker => {
+      if (!worker.current) {
+        worker.current = new Worker(new URL("../lib/reconcile.worker.ts", import.meta.url))
+        worker.current.onmessage = (event: MessageEvent<WorkerResponse>) => {
+          const response = event.data
+          const job = jobs.current.get(response.jobId)
+          if (!job) return
+          if (response.type === "progress") {
+            job.onProgress?.(response.message, response.percent)
+            return
+          }
+          jobs.current.delete(response.jobId)
+          if (response.type === "done") {
+            job.resolve(response.value)
+          } else {
+            job.reject(new Error(response.message))
+          }
+        }
+      }
+      return worker.current
+    }
+
+    const run = <T,>(request: WorkerRequest, onProgress?: PendingJob["onProgress"]): Promise<T> =>
+      new Promise<T>((resolve, reject) => {
+        const jobId = nextJobId.current++
+        jobs.current.set(jobId, { resolve: value => resolve(value as T), reject, onProgress })
+        getWorker().postMessage({ jobId, request })
+      })
+
+    return {
+      preview: async (kind: FileKind, file: File, options: { sheetNames?: string[]; headerRow?: number } = {}) => {
+        const request: PreviewRequest = { type: "preview", kind, file, ...options }
+        try {
+          const preview = await run<SheetPreview>(request)
+          loadedPreviews.current[kind] = request
+          return preview
+        } catch (error) {
+          // The worker drops a new file it cannot read, but keeps the previous
+          // rows when only a sheet or header-row choice fails.
+          if (!options.sheetNames && options.headerRow === undefined) delete loadedPreviews.current[kind]
+          throw error
+        }
+      },
+      clear: (kind: FileKind) => {
+        delete loadedPreviews.current[kind]
+        return run<void>({ type: "clear", kind })
+      },
+      inspect: (mappings: Partial<Record<FileKind, ColumnMapping>>) => run<FileInspection>({ type: "inspect", mappings }),
+      reconcile: (job: ReconcileJob, onProgress: PendingJob["onProgress"]) =>
+        run<ReconcileOutput>({ type: "reconcile", ...job }, onProgress),
+      /** Writes `rows` to a single-sheet `.xlsx` file. */
+      exportRows: (rows: object[], sheetName: string) => run<ArrayBuffer>({ type: "export", rows, sheetName }),
+      cancel: () => {
+        worker.current?.terminate()
+        worker.current = null
+        jobs.current.forEach(job => job.reject(cancelledError()))
+        jobs.current.clear()
+        Object.values(loadedPreviews.current).forEach(request => run(request).catch(() => {}))
+      },
+    }
+  }, [])
+}
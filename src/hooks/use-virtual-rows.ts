@@ -0,0 +1,40 @@
+import * as React from "react"
+
+type VirtualRowsOptions = {
+  /** Every row must render at exactly this height, in pixels. */
+  rowHeight: number
+  viewportHeight: number
+  /** Rows rendered above and below the visible ones. */
+  overscan?: number
+}
+
+/**
+ * Windowing for long tables: only the rows in view are rendered, between two
+ * spacer rows of `paddingTop` and `paddingBottom` pixels that keep the scroll
+ * height. Spread `viewportProps` on the scrolling element.
+ */
+export function useVirtualRows(rowCount: number, { rowHeight, viewportHeight, overscan = 10 }: VirtualRowsOptions) {
+  const viewport = React.useRef<HTMLDivElement>(null)
+  const [scrollTop, setScrollTop] = React.useState(0)
+
+  const firstIndex = Math.max(Math.floor(scrollTop / rowHeight) - overscan, 0)
+  const lastIndex = Math.min(Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan, rowCount)
+
+  const scrollToTop = React.useCallback(() => {
+    if (viewport.current) viewport.current.scrollTop = 0
+    setScrollTop(0)
+  }, [])
+
+  return {
+    viewportProps: {
+      ref: viewport,
+      style: { height: viewportHeight },
+      onScroll: (event: React.UIEvent<HTMLDivElement>) => setScrollTop(event.currentTarget.scrollTop),
+    },
+    firstIndex,
+    lastIndex,
+    paddingTop: firstIndex * rowHeight,
+    paddingBottom: Math.max(rowCount - lastIndex, 0) * rowHeight,
+    scrollToTop,
+  }
+}
@@ -0,0 +1,90 @@
+import * as XLSX from 'xlsx';
+import { describe, expect, it } from 'vitest';
+import { buildAnalysisWorkbook, type AnalysisRunInfo } from '@/lib/analysis-workbook';
+import { DEFAULT_MOVEMENT_RULES, type MovementRule } from '@/lib/movement-rules';
+import { reconcile } from '@/lib/reconcile';
+import { DIFFERENCE_STATUSES } from '@/lib/tolerances';
+import { WORKBOOK_SHEETS } from '@/lib/workbook-sheets';
+
+const result = reconcile(
+  [
+    { Material: 'A', 'Libre utilización': '10', Almacén: 'PT01', Centro: 'C1' },
+    { Material: 'B', 'Libre utilización': '5', Almacén: 'PT01', Centro: 'C1' },
+  ],
+  [
+    { SKU: 'A', Cantidad: '10', Area: 'ALM', Ubicación: 'U1', 'AREA SAP': 'PT01' },
+    { SKU: 'B', Cantidad: '3', Area: 'ALM', Ubicación: 'U2', 'AREA SAP': 'PT01' },
+  ],
+  []
+);
+
+const run: AnalysisRunInfo = {
+  generatedAt: new Date(2024, 0, 31, 9, 30),
+  files: [
+    { kind: 'sap', fileName: 'sap.xlsx', sheets: ['Hoja1'], rows: 2 },
+    { kind: 'wms', fileName: 'wms.csv', sheets: ['Datos'], rows: 2 },
+  ],
+  options: { movementRules: DEFAULT_MOVEMENT_RULES },
+};
+
+describe('buildAnalysisWorkbook', () => {
+  const workbook = XLSX.read(buildAnalysisWorkbook(result, run), { type: 'array' });
+
+  it('starts with a cover recording the source files', () => {
+    expect(workbook.SheetNames[0]).toBe(WORKBOOK_SHEETS.cover);
+    const cover = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[WORKBOOK_SHEETS.cover], { header: 1 }).flat();
+    expect(cover).toEqual(expect.arrayContaining(['sap.xlsx', 'wms.csv']));
+  });
+
+  it('subtotals the analysis lines per centro', () => {
+    const analysis = XLSX.utils.sheet_to_json<Record<string, unknown>>(workbook.Sheets[WORKBOOK_SHEETS.analysis]);
+    expect(analysis.map(row => [row.Centro, row.SKU, row.Diferencia])).toEqual([
+      ['C1', 'A', 0],
+      ['C1', 'B', -2],
+      ['Subtotal C1', undefined, -2],
+      ['Total general', undefined, -2],
+    ]);
+  });
+});
+
+describe('analysis workbook sheets', () => {
+  const workbook = XLSX.read(buildAnalysisWorkbook(result, run), { type: 'array' });
+
+  it('writes every on-screen table and one sheet per status', () => {
+    expect(workbook.SheetNames).toEqual(expect.arrayContaining([
+      WORKBOOK_SHEETS.analysis,
+      WORKBOOK_SHEETS.statusSummary,
+      WORKBOOK_SHEETS.accuracy,
+      WORKBOOK_SHEETS.differences,
+      WORKBOOK_SHEETS.dataQuality,
+      WORKBOOK_SHEETS.unmappedWms,
+      ...DIFFERENCE_STATUSES,
+    ]));
+    expect(workbook.SheetNames).not.toContain(WORKBOOK_SHEETS.lots);
+  });
+
+  it('splits the analysis lines by status and keeps the headers of empty tables', () => {
+    const shortages = XLSX.utils.sheet_to_json<Record<string, unknown>>(workbook.Sheets.Faltante);
+    expect(shortages.filter(row => row.SKU).map(row => row.SKU)).toEqual(['B']);
+    const [qualityHeader] = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[WORKBOOK_SHEETS.dataQuality], { header: 1 });
+    expect(qualityHeader).toEqual(['Archivo', 'Fila', 'Tipo', 'SKU', 'Motivo']);
+  });
+
+  it('gives custom categories that coincide once truncated distinct sheet names', () => {
+    const movementRules: MovementRule[] = [
+      ...DEFAULT_MOVEMENT_RULES,
+      { claseMov: 'Z61', category: 'personalizada', customCategory: 'Diferencias por reclasificación norte', sign: 1 },
+      { claseMov: 'Z62', category: 'personalizada', customCategory: 'Diferencias por reclasificación sur', sign: 1 },
+    ];
+    const custom = reconcile(
+      [{ Material: 'A', 'Libre utilización': '10', Almacén: 'PT01', Centro: 'C1' }],
+      [{ SKU: 'A', Cantidad: '10', Area: 'ALM', Ubicación: 'U1', 'AREA SAP': 'PT01' }],
+      [],
+      { movementRules }
+    );
+    const names = XLSX.read(buildAnalysisWorkbook(custom, { ...run, options: { movementRules } }), { type: 'array' }).SheetNames;
+
+    expect(names).toEqual(expect.arrayContaining(['Diferencias por reclasificación', 'Diferencias por reclasifica (2)']));
+    expect(new Set(names.map(name => name.toLowerCase())).size).toBe(names.length);
+  });
+});
@@ -0,0 +1,209 @@
+import * as XLSX from 'xlsx';
+import { FILE_LABELS, type FileKind } from '@/lib/column-headers';
+import { movementCategoryName, movementTitle, type MovementRule } from '@/lib/movement-rules';
+import { NUMBER_FORMAT_LABELS } from '@/lib/number-parser';
+import {
+  DEFAULT_STORAGE_LOCATIONS,
+  type AnalysisReportRow,
+  type AnalysisResult,
+  type CentroDifferenceRow,
+  type CentroQuantityRow,
+  type DataQualityIssue,
+  type LotReportRow,
+  type ReconcileOptions,
+  type UnmappedWmsRow,
+} from '@/lib/reconcile';
+import { DEFAULT_SKU_NORMALIZATION, LEADING_ZEROS_LABELS, type SkuNormalization } from '@/lib/sku-normalization';
+import { DIFFERENCE_STATUSES, TOLERANCE_SCOPE_LABELS, type ToleranceRule } from '@/lib/tolerances';
+import { DEFAULT_TRANSFER_RULE, type TransferStockRule } from '@/lib/transfer-rules';
+import { formatTableSheet, freezeHeaderRows, toSubtotaledSheet } from '@/lib/workbook-format';
+import { WORKBOOK_SHEETS } from '@/lib/workbook-sheets';
+
+/** Settings of a reconciliation run; prices and decimal-comma hints come from the loaded files. */
+export type AnalysisRunOptions = Omit<ReconcileOptions, 'prices' | 'decimalCommaHints' | 'onProgress'> & { movementRules: MovementRule[] };
+
+/** What the cover sheet records about the run that produced a result. */
+export type AnalysisRunInfo = {
+  generatedAt: Date;
+  files: Array<{ kind: FileKind; fileName: string; sheets: string[]; rows: number }>;
+  priceList?: { fileName: string; prices: number };
+  options: AnalysisRunOptions;
+};
+
+// Headers of the tables that are exported even when empty; optional columns
+// (values, units, dates) only appear when the rows carry them.
+const ANALYSIS_HEADER: Array<keyof AnalysisReportRow> = [
+  'Centro',
+  'Descripción (Almacén)',
+  'SKU',
+  'Nombre Prod',
+  'Stock SAP',
+  'Stock WMS',
+  'Diferencia',
+  'Estado',
+  'Ajuste Mensual (Dif. Inventario)',
+  'Diferencia Residual',
+  'Stock para Traslado',
+];
+const DIFFERENCE_HEADER: Array<keyof CentroDifferenceRow> = ['Centro', 'Diferencia', 'Ajuste Mensual (Dif. Inventario)', 'Diferencia Residual'];
+const QUANTITY_HEADER: Array<keyof CentroQuantityRow> = ['Centro', 'Suma de Cantidad'];
+const LOT_HEADER: Array<keyof LotReportRow> = ['Centro', 'Descripción (Almacén)', 'SKU', 'Lote', 'Stock SAP', 'Stock WMS', 'Diferencia', 'Vencimiento SAP', 'Vencimiento WMS', 'Estado'];
+const UNMAPPED_HEADER: Array<keyof UnmappedWmsRow> = ['Descripción (Almacén)', 'SKU WMS', 'Cantidad', 'Filas'];
+const DATA_QUALITY_HEADER: Array<keyof DataQualityIssue> = ['Archivo', 'Fila', 'Tipo', 'SKU', 'Motivo'];
+
+const ANALYSIS_SUM_COLUMNS: Array<keyof AnalysisReportRow> = [
+  'Stock SAP',
+  'Stock WMS',
+  'Diferencia',
+  'Ajuste Mensual (Dif. Inventario)',
+  'Diferencia Residual',
+  'Stock para Traslado',
+  'Valor SAP',
+  'Valor WMS',
+  'Valor Diferencia',
+  'Valor Residual',
+];
+
+/** Rows as a table sheet; `emptyHeader` keeps the column headers when there are no rows. */
+const toTableSheet = (rows: object[], emptyHeader: string[]) =>
+  XLSX.utils.json_to_sheet(rows, { header: rows.length > 0 ? Object.keys(rows[0]) : emptyHeader });
+
+/** Analysis lines with a subtotal per centro. */
+const toAnalysisSheet = (rows: AnalysisReportRow[], emptyHeader: string[]): XLSX.WorkSheet => {
+  if (rows.length === 0) return toTableSheet(rows, emptyHeader);
+  return toSubtotaledSheet(rows, {
+    groupBy: 'Centro',
+    sumColumns: ANALYSIS_SUM_COLUMNS,
+    subtotalLabel: centro => `Subtotal ${centro}`,
+    totalLabel: 'Total general',
+  });
+};
+
+// Excel sheet names are limited to 31 characters and cannot contain : \ / ? * [ ]
+const MAX_SHEET_NAME_LENGTH = 31;
+const toSheetName = (title: string) => title.replace(/[:\\/?*[\]]/g, '-').slice(0, MAX_SHEET_NAME_LENGTH);
+
+/**
+ * Sheet name for `title` not yet used in `workbook`, compared regardless of
+ * case like Excel does: long titles can coincide once truncated, so a
+ * repeated name gets a numeric suffix, e.g. `Daño (2)`.
+ */
+const uniqueSheetName = (workbook: XLSX.WorkBook, title: string): string => {
+  const taken = new Set(workbook.SheetNames.map(name => name.toLowerCase()));
+  const base = toSheetName(title);
+  let name = base;
+  for (let copy = 2; taken.has(name.toLowerCase()); copy++) {
+    const suffix = ` (${copy})`;
+    name = base.slice(0, MAX_SHEET_NAME_LENGTH - suffix.length) + suffix;
+  }
+  return name;
+};
+
+const describeTolerance = (rule: ToleranceRule): string => {
+  const scope = rule.scope === 'todos' ? TOLERANCE_SCOPE_LABELS.todos : `${TOLERANCE_SCOPE_LABELS[rule.scope]} ${rule.value}`;
+  const limits = [
+    rule.maxUnits !== undefined && `hasta ${rule.maxUnits} unidades`,
+    rule.maxPercent !== undefined && `hasta ${rule.maxPercent} % del stock SAP`,
+    rule.maxValue !== undefined && `hasta ${rule.maxValue} en valor`,
+  ].filter(Boolean);
+  return `${scope}: ${limits.join(', ') || 'sin límites'}`;
+};
+
+const describeSkuNormalization = (rules: SkuNormalization): string => [
+  rules.leadingZeros === 'pad' ? `${LEADING_ZEROS_LABELS.pad} (${rules.padLength})` : LEADING_ZEROS_LABELS[rules.leadingZeros],
+  rules.prefixes.length > 0 && `prefijos ${rules.prefixes.join(', ')}`,
+  rules.suffixes.length > 0 && `sufijos ${rules.suffixes.join(', ')}`,
+  rules.uppercase && 'mayúsculas',
+  rules.removeSeparators && 'sin separadores',
+].filter(Boolean).join('; ');
+
+const describeTransferRule = (rule: TransferStockRule): string =>
+  `Áreas ${rule.areaPrefixes.join(', ') || '—'}; ubicaciones ${rule.locationPatterns.join(', ') || '—'}` +
+  (rule.explainsDifference ? '; explica diferencias' : '');
+
+/** Label/value sheet with the files, row counts and rules behind the result. */
+const buildCoverSheet = (result: AnalysisResult, run: AnalysisRunInfo): XLSX.WorkSheet => {
+  const { options } = run;
+  const skippedRows = result.dataQualityReport.filter(issue => issue.Tipo === 'Fila omitida').length;
+  const rows: unknown[][] = [
+    ['Análisis de Stock SAP vs WMS'],
+    ['Generado', run.generatedAt],
+    [],
+    ['Archivos'],
+    ...run.files.flatMap(file => [
+      [`Archivo ${FILE_LABELS[file.kind]}`, file.fileName],
+      ['Hojas', file.sheets.join(', ')],
+      ['Filas leídas', file.rows],
+    ]),
+    ...(run.priceList ? [['Lista de Precios', `${run.priceList.fileName} (${run.priceList.prices} materiales)`]] : []),
+    [],
+    ['Resultados'],
+    ['Líneas analizadas', result.analysisReport.length],
+    ...result.statusSummary.map(item => [item.Estado, item['Cantidad de Líneas']]),
+    ['Filas omitidas', skippedRows],
+    ['Advertencias', result.dataQualityReport.length - skippedRows],
+    [],
+    ['Reglas'],
+    ['Almacenes', (options.storageLocations ?? DEFAULT_STORAGE_LOCATIONS).join(', ')],
+    ['Conciliación por lote', options.lotLevel ? 'Sí' : 'No'],
+    ...(Object.entries(result.numberFormats) as Array<[FileKind, keyof typeof NUMBER_FORMAT_LABELS]>)
+      .map(([kind, format]) => [`Formato numérico ${FILE_LABELS[kind]}`, NUMBER_FORMAT_LABELS[format]]),
+    ['Clases de movimiento', options.movementRules
+      .map(rule => `${rule.claseMov}: ${movementCategoryName(rule)}${rule.sign < 0 ? ' (signo invertido)' : ''}`)
+      .join('; ')],
+    ['Tolerancias', options.toleranceRules?.length ? options.toleranceRules.map(describeTolerance).join('; ') : 'Sin tolerancias'],
+    ['Stock para traslado', describeTransferRule(options.transferRule ?? DEFAULT_TRANSFER_RULE)],
+    ['Normalización de SKU', describeSkuNormalization(options.skuNormalization ?? DEFAULT_SKU_NORMALIZATION)],
+    ['Equivalencias de SKU', options.skuCrossReference?.length ?? 0],
+    ['Conversiones de unidad', options.unitConversions?.length ?? 0],
+  ];
+  const worksheet = XLSX.utils.aoa_to_sheet(rows, { dateNF: 'dd/mm/yyyy hh:mm' });
+  worksheet['!cols'] = [{ wch: 28 }, { wch: 80 }];
+  return worksheet;
+};
+
+/**
+ * Builds the downloadable `analisis_stock.xlsx`: a cover sheet with the run's
+ * metadata followed by every table shown on screen, formatted, and the
+ * analysis lines of each status on a sheet of their own. Tables are exported
+ * even when empty so the workbook always has the same sheets.
+ */
+export function buildAnalysisWorkbook(result: AnalysisResult, run: AnalysisRunInfo): ArrayBuffer {
+  const { analysisReport, lotReport, mermaReport, vencimientoReport, customMovementReports, dataQualityReport, unmappedWmsReport, statusSummary, accuracyReport, diferenciaReport } = result;
+  const { movementRules } = run.options;
+  const workbook = XLSX.utils.book_new();
+  const appendTable = (worksheet: XLSX.WorkSheet, title: string) =>
+    XLSX.utils.book_append_sheet(workbook, formatTableSheet(worksheet), uniqueSheetName(workbook, title));
+  // Status sheets without lines keep the columns of the full analysis.
+  const analysisHeader = analysisReport.length > 0 ? Object.keys(analysisReport[0]) : ANALYSIS_HEADER;
+
+  XLSX.utils.book_append_sheet(workbook, buildCoverSheet(result, run), WORKBOOK_SHEETS.cover);
+  appendTable(toAnalysisSheet(analysisReport, analysisHeader), WORKBOOK_SHEETS.analysis);
+  appendTable(XLSX.utils.json_to_sheet(statusSummary), WORKBOOK_SHEETS.statusSummary);
+  appendTable(XLSX.utils.json_to_sheet(accuracyReport), WORKBOOK_SHEETS.accuracy);
+  appendTable(toTableSheet(diferenciaReport, DIFFERENCE_HEADER), WORKBOOK_SHEETS.differences);
+  appendTable(toTableSheet(mermaReport, QUANTITY_HEADER), movementTitle(movementRules, 'Merma'));
+  appendTable(toTableSheet(vencimientoReport, QUANTITY_HEADER), movementTitle(movementRules, 'Vencimiento'));
+  customMovementReports.forEach(report => {
+    appendTable(toTableSheet(report.rows, QUANTITY_HEADER), movementTitle(movementRules, report.category));
+  });
+  appendTable(toTableSheet(dataQualityReport, DATA_QUALITY_HEADER), WORKBOOK_SHEETS.dataQuality);
+  appendTable(toTableSheet(unmappedWmsReport, UNMAPPED_HEADER), WORKBOOK_SHEETS.unmappedWms);
+  if (lotReport) {
+    appendTable(toTableSheet(lotReport, LOT_HEADER), WORKBOOK_SHEETS.lots);
+  }
+  DIFFERENCE_STATUSES.forEach(status => {
+    appendTable(toAnalysisSheet(analysisReport.filter(row => row.Estado === status), analysisHeader), status);
+  });
+
+  // Every sheet but the cover is a table.
+  const tableSheets = workbook.SheetNames.map((_, index) => index).slice(1);
+  return freezeHeaderRows(XLSX.write(workbook, { bookType: 'xlsx', type: 'array' }), tableSheets);
+}
+
+/** Builds a single-sheet workbook, e.g. with the rows of a filtered table view. */
+export function buildRowsWorkbook(rows: object[], sheetName: string): ArrayBuffer {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, formatTableSheet(XLSX.utils.json_to_sheet(rows)), toSheetName(sheetName));
+  return freezeHeaderRows(XLSX.write(workbook, { bookType: 'xlsx', type: 'array' }), [0]);
+}
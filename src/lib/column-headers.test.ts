@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { detectColumnMapping, findColumn, getHeaders, missingColumnRoles } from '@/lib/column-headers';
+
+describe('detectColumnMapping', () => {
+  it('prefers exact synonyms and keeps claimed headers out of partial matches', () => {
+    const { mapping, ambiguous } = detectColumnMapping(['SKU', 'Cantidad', 'AREA SAP', 'Área de picking', 'Ubicación'], 'wms');
+    expect(mapping).toMatchObject({ sku: 'SKU', qty: 'Cantidad', almacen: 'AREA SAP', area: 'Área de picking', ubicacion: 'Ubicación' });
+    expect(ambiguous).toEqual({});
+  });
+
+  it('flags roles that several headers could fill', () => {
+    const { mapping, ambiguous } = detectColumnMapping(['Material', 'Stock libre', 'Stock en tránsito', 'Almacén', 'Centro'], 'sap');
+    expect(mapping.qty).toBe('Stock libre');
+    expect(ambiguous.qty).toEqual(['Stock libre', 'Stock en tránsito']);
+  });
+});
+
+describe('missingColumnRoles', () => {
+  it('lists the unmapped required roles', () => {
+    expect(missingColumnRoles({ sku: 'Material', qty: 'Cantidad' }, 'sap')).toEqual(['almacen', 'centro']);
+  });
+});
+
+describe('getHeaders', () => {
+  it('collects keys missing from the first row', () => {
+    expect(getHeaders([{ SKU: 'A' }, { SKU: 'B', Lote: 'L1' }])).toEqual(['SKU', 'Lote']);
+  });
+});
+
+describe('findColumn', () => {
+  it('prefers an exact synonym, then a header containing a keyword, skipping excluded headers', () => {
+    const headers = ['Material WMS', 'Material', 'Precio por unidad'];
+    expect(findColumn(headers, ['material'])).toBe('Material');
+    expect(findColumn(headers, ['material'], { exclude: ['Material'] })).toBe('Material WMS');
+    expect(findColumn(headers, ['precio'], { keywords: ['precio'] })).toBe('Precio por unidad');
+    expect(findColumn(headers, ['factor'])).toBeUndefined();
+  });
+});
@@ -0,0 +1,154 @@
+export const SKU_SYNONYMS = ['sku', 'material', 'código', 'codigo', 'cód', 'cod', 'item', 'producto', 'product id', 'artículo', 'articulo', 'referencia', 'ref', 'número de artículo', 'numero de articulo'];
+export const QTY_SYNONYMS = ['unrestrictedstock', 'libre utilización', 'ctd.en um entrada', 'quantity', 'unrestricted', 'cantidad', 'cant', 'stock', 'existencia', 'existencias', 'qty', 'on hand', 'disponible', 'stock sap', 'stock wms', 'ajuste', 'ajustes'];
+export const AREA_SYNONYMS = ['area', 'área'];
+export const WMS_AREA_SAP_SYNONYMS = ['area sap', 'almacén', 'almacen', 'storage location'];
+export const UBICACION_SYNONYMS = ['ubicación', 'ubicacion', 'bin', 'location'];
+export const CENTRO_SYNONYMS = ['centro', 'center', 'plant'];
+export const NOMBRE_PROD_SYNONYMS = ['nombre prod', 'nombre producto', 'product name', 'descripción', 'descripcion', 'description', 'texto breve de material'];
+export const CLASE_MOV_SYNONYMS = ['clase de movimiento', 'clase mov', 'cl. mov.'];
+export const LOTE_SYNONYMS = ['lote', 'batch', 'lot'];
+export const UNIDAD_SYNONYMS = ['unidad de medida', 'unidad medida base', 'um base', 'umb', 'um entrada', 'unidad', 'uom', 'unit of measure', 'base unit of measure'];
+export const GRUPO_SYNONYMS = ['grupo de artículos', 'grupo de articulos', 'grupo artículos', 'grupo articulos', 'grupo de material', 'grupo material', 'material group', 'matl group'];
+export const VALOR_SYNONYMS = ['valor libre utilización', 'valor libre utiliz.', 'valor libre util.', 'valor de stock', 'valor stock', 'valor total', 'valor', 'value unrestricted', 'stock value'];
+export const VENCIMIENTO_SYNONYMS = ['fecha de vencimiento', 'fecha vencimiento', 'fecha venc.', 'vencimiento', 'fecha de caducidad', 'caducidad', 'expiry date', 'expiration date', 'expiry', 'fecha cad./fecha preferente consumo'];
+
+export type ColumnRole =
+  | 'sku'
+  | 'qty'
+  | 'area'
+  | 'almacen'
+  | 'ubicacion'
+  | 'centro'
+  | 'descripcion'
+  | 'claseMov'
+  | 'lote'
+  | 'vencimiento'
+  | 'unidad'
+  | 'grupo'
+  | 'valor';
+
+export type FileKind = 'sap' | 'wms' | 'adjustments';
+
+export const FILE_KINDS: FileKind[] = ['sap', 'wms', 'adjustments'];
+
+/** Header assigned to each role. A missing role means "no column". */
+export type ColumnMapping = Partial<Record<ColumnRole, string>>;
+
+export type ColumnDetection = {
+  mapping: ColumnMapping;
+  /** Roles for which more than one header is a plausible match. */
+  ambiguous: Partial<Record<ColumnRole, string[]>>;
+};
+
+export const COLUMN_ROLES: Record<ColumnRole, { label: string; synonyms: string[] }> = {
+  sku: { label: 'SKU/Material', synonyms: SKU_SYNONYMS },
+  qty: { label: 'Cantidad/Stock', synonyms: QTY_SYNONYMS },
+  area: { label: 'Área', synonyms: AREA_SYNONYMS },
+  almacen: { label: 'Almacén/AREA SAP', synonyms: WMS_AREA_SAP_SYNONYMS },
+  ubicacion: { label: 'Ubicación', synonyms: UBICACION_SYNONYMS },
+  centro: { label: 'Centro', synonyms: CENTRO_SYNONYMS },
+  descripcion: { label: 'Descripción', synonyms: NOMBRE_PROD_SYNONYMS },
+  claseMov: { label: 'Clase de Movimiento', synonyms: CLASE_MOV_SYNONYMS },
+  lote: { label: 'Lote', synonyms: LOTE_SYNONYMS },
+  vencimiento: { label: 'Fecha de Vencimiento', synonyms: VENCIMIENTO_SYNONYMS },
+  unidad: { label: 'Unidad de Medida', synonyms: UNIDAD_SYNONYMS },
+  grupo: { label: 'Grupo de Artículos', synonyms: GRUPO_SYNONYMS },
+  valor: { label: 'Valor del Stock', synonyms: VALOR_SYNONYMS },
+};
+
+export const FILE_LABELS: Record<FileKind, string> = {
+  sap: 'SAP',
+  wms: 'WMS',
+  adjustments: 'Ajustes',
+};
+
+/** Roles read from each extract; the engine aborts when a required one is unmapped. */
+export const FILE_COLUMN_ROLES: Record<FileKind, { required: ColumnRole[]; optional: ColumnRole[] }> = {
+  sap: { required: ['sku', 'qty', 'almacen', 'centro'], optional: ['descripcion', 'lote', 'vencimiento', 'unidad', 'grupo', 'valor'] },
+  wms: { required: ['sku', 'qty', 'area', 'ubicacion', 'almacen'], optional: ['centro', 'lote', 'vencimiento', 'unidad'] },
+  adjustments: { required: ['sku', 'qty', 'claseMov'], optional: ['almacen', 'centro', 'unidad'] },
+};
+
+export const standardizeHeader = (value: string) => value.toLowerCase().trim().replace(/\s+/g, ' ');
+
+/**
+ * Collects the column headers of parsed rows. `sheet_to_json` omits empty
+ * cells, so the first row alone may not carry every key.
+ */
+export function getHeaders(rows: Record<string, any>[], sampleSize = 1000): string[] {
+  const headers = new Set<string>();
+  rows.slice(0, sampleSize).forEach(row => Object.keys(row).forEach(key => headers.add(key)));
+  return Array.from(headers);
+}
+
+/**
+ * Finds a column of a reference table (equivalences, conversions, prices):
+ * the first header equal to a synonym, else the first one containing a
+ * `keyword` (the synonyms by default). Headers in `exclude` are already
+ * assigned to another column.
+ */
+export function findColumn(
+  headers: string[],
+  synonyms: string[],
+  { keywords = synonyms, exclude = [] }: { keywords?: string[]; exclude?: Array<string | undefined> } = {}
+): string | undefined {
+  const candidates = headers.filter(header => !exclude.includes(header));
+  return candidates.find(header => synonyms.includes(standardizeHeader(header))) ??
+    candidates.find(header => keywords.some(keyword => standardizeHeader(header).includes(keyword)));
+}
+
+/**
+ * Proposes a header for every role used by `kind`. Exact synonym matches are
+ * preferred; substring matches only consider headers not matched exactly by
+ * another role, so "AREA SAP" is not offered as the WMS "Área". A role is
+ * ambiguous when several headers match exactly, or none does and several
+ * contain a synonym (e.g. "Stock libre" and "Stock en tránsito").
+ */
+export function detectColumnMapping(headers: string[], kind: FileKind): ColumnDetection {
+  const { required, optional } = FILE_COLUMN_ROLES[kind];
+  const roles = [...required, ...optional];
+  const standardized = headers.map(standardizeHeader);
+
+  const exactMatches = new Map<ColumnRole, string[]>();
+  roles.forEach(role => {
+    const synonyms = COLUMN_ROLES[role].synonyms.map(standardizeHeader);
+    const matches: string[] = [];
+    synonyms.forEach(synonym => {
+      standardized.forEach((header, index) => {
+        if (header === synonym && !matches.includes(headers[index])) matches.push(headers[index]);
+      });
+    });
+    exactMatches.set(role, matches);
+  });
+  const claimed = new Set(Array.from(exactMatches.values()).flat());
+
+  const mapping: ColumnMapping = {};
+  const ambiguous: ColumnDetection['ambiguous'] = {};
+  roles.forEach(role => {
+    const exact = exactMatches.get(role)!;
+    if (exact.length > 0) {
+      mapping[role] = exact[0];
+      if (exact.length > 1) ambiguous[role] = exact;
+      return;
+    }
+    const synonyms = COLUMN_ROLES[role].synonyms.map(standardizeHeader);
+    const partial: string[] = [];
+    synonyms.forEach(synonym => {
+      standardized.forEach((header, index) => {
+        const original = headers[index];
+        if (header.includes(synonym) && !claimed.has(original) && !partial.includes(original)) partial.push(original);
+      });
+    });
+    if (partial.length > 0) {
+      mapping[role] = partial[0];
+      if (partial.length > 1) ambiguous[role] = partial;
+    }
+  });
+
+  return { mapping, ambiguous };
+}
+
+/** Required roles of `kind` that have no column assigned in `mapping`. */
+export function missingColumnRoles(mapping: ColumnMapping, kind: FileKind): ColumnRole[] {
+  return FILE_COLUMN_ROLES[kind].required.filter(role => !mapping[role]);
+}
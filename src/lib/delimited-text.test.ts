@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { parseDelimitedText } from '@/lib/delimited-text';
+
+const toBuffer = (bytes: Uint8Array): ArrayBuffer =>
+  bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+
+const encode = (text: string) => toBuffer(new TextEncoder().encode(text));
+
+describe('parseDelimitedText', () => {
+  it('detects the delimiter and unquotes fields', () => {
+    const { rows, delimiter, encoding } = parseDelimitedText(encode('Material;Cantidad;Texto\nA;1,5;"Caja; 12 un"\nB;2;"Dice ""hola"""\n'));
+    expect(delimiter).toBe(';');
+    expect(encoding).toBe('utf-8');
+    expect(rows).toEqual([
+      ['Material', 'Cantidad', 'Texto'],
+      ['A', '1,5', 'Caja; 12 un'],
+      ['B', '2', 'Dice "hola"'],
+    ]);
+  });
+
+  it('decodes Windows-1252 exports', () => {
+    // Latin-1 matches Windows-1252 for these accented letters.
+    const bytes = Buffer.from('Almacén,Ubicación', 'latin1');
+    const { rows, encoding } = parseDelimitedText(toBuffer(bytes));
+    expect(encoding).toBe('windows-1252');
+    expect(rows).toEqual([['Almacén', 'Ubicación']]);
+  });
+
+  it('strips SAP list frames, rules and repeated headers', () => {
+    const list = [
+      '----------------------------',
+      '| Material | Almacén | Libre |',
+      '|--------------------------|',
+      '| A        | PT01    | 10    |',
+      '----------------------------',
+      '| Material | Almacén | Libre |',
+      '|--------------------------|',
+      '| B        | PT01    | 5-    |',
+    ].join('\r\n');
+    const { rows, delimiter } = parseDelimitedText(encode(list));
+    expect(delimiter).toBe('|');
+    expect(rows).toEqual([
+      ['Material', 'Almacén', 'Libre'],
+      ['A', 'PT01', '10'],
+      ['B', 'PT01', '5-'],
+    ]);
+  });
+
+  it('splits fixed-width exports at the dash ruler under the header', () => {
+    const list = [
+      '',
+      'Material   Alm.  Libre utilización',
+      '---------- ----- -----------------',
+      'A-100      PT01           1.234,500',
+      'B 200      PT02               12,000',
+    ].join('\n');
+    const { rows, delimiter } = parseDelimitedText(encode(list));
+    expect(delimiter).toBeUndefined();
+    expect(rows).toEqual([
+      ['Material', 'Alm.', 'Libre utilización'],
+      ['A-100', 'PT01', '1.234,500'],
+      ['B 200', 'PT02', '12,000'],
+    ]);
+  });
+
+  it('takes fixed-width columns from the header when there is no ruler', () => {
+    const list = [
+      'Material    Almacén        Libre',
+      'A-100       PT01       12345678',
+      'B 200       PT02             5',
+    ].join('\n');
+    expect(parseDelimitedText(encode(list)).rows).toEqual([
+      ['Material', 'Almacén', 'Libre'],
+      ['A-100', 'PT01', '12345678'],
+      ['B 200', 'PT02', '5'],
+    ]);
+  });
+});
@@ -0,0 +1,203 @@
+export type TextEncoding = 'utf-8' | 'utf-16le' | 'windows-1252';
+
+export type Delimiter = ',' | ';' | '\t' | '|';
+
+export type ParsedText = {
+  rows: string[][];
+  encoding: TextEncoding;
+  /** Absent for fixed-width layouts. */
+  delimiter?: Delimiter;
+};
+
+const DELIMITERS: Delimiter[] = [';', ',', '\t', '|'];
+
+/** Lines inspected when guessing the delimiter. */
+const DELIMITER_SAMPLE_LINES = 50;
+
+/**
+ * Guesses the encoding of a text export: a BOM wins; otherwise the bytes are
+ * UTF-8 when they decode strictly as such, and Windows-1252 (the encoding of
+ * SAP GUI and most WMS downloads on Spanish Windows) when they do not.
+ */
+export function detectTextEncoding(bytes: Uint8Array): TextEncoding {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+}
+
+const countOutsideQuotes = (line: string, delimiter: string): number => {
+  let count = 0;
+  let quoted = false;
+  for (const char of line) {
+    if (char === '"') quoted = !quoted;
+    else if (char === delimiter && !quoted) count++;
+  }
+  return count;
+};
+
+/**
+ * Picks the delimiter that splits the sample lines into the same, largest
+ * number of fields most often.
+ */
+export function detectDelimiter(lines: string[]): Delimiter {
+  const sample = lines.filter(line => line.trim() !== '').slice(0, DELIMITER_SAMPLE_LINES);
+  let best: { delimiter: Delimiter; score: number } = { delimiter: ',', score: 0 };
+  DELIMITERS.forEach(delimiter => {
+    const counts = sample.map(line => countOutsideQuotes(line, delimiter)).filter(count => count > 0);
+    if (counts.length === 0) return;
+    const frequency = new Map<number, number>();
+    counts.forEach(count => frequency.set(count, (frequency.get(count) || 0) + 1));
+    const [fields, lines] = Array.from(frequency.entries()).sort((a, b) => b[1] - a[1] || b[0] - a[0])[0];
+    const score = lines * fields;
+    if (score > best.score) best = { delimiter, score };
+  });
+  return best.delimiter;
+}
+
+/** RFC 4180 parsing: quoted fields may contain delimiters, doubled quotes and line breaks. */
+const parseQuoted = (text: string, delimiter: Delimiter): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+};
+
+const SAP_RULE_LINE = /^[\s|+\-=_]*$/;
+
+const NUMERIC_CELL = /^[-+(]?[\d.,\s]+[-)]?$/;
+
+/**
+ * SAP list output ("local file" downloads of ALV or spool lists) frames each
+ * line with `|`, separates blocks with dashed rules and repeats the column
+ * header on every page. Rules are dropped, frames removed and header
+ * repetitions skipped so the result reads like a plain table. The header is
+ * the text-only line that repeats most; data lines always carry a quantity.
+ */
+const parseSapList = (lines: string[]): string[][] => {
+  const rows = lines
+    .filter(line => line.trim() !== '' && !SAP_RULE_LINE.test(line))
+    .map(line => {
+      const framed = line.trim().replace(/^\|/, '').replace(/\|$/, '');
+      return framed.split('|').map(cell => cell.trim());
+    });
+
+  const repeats = new Map<string, number>();
+  rows.forEach(cells => {
+    const filled = cells.filter(Boolean);
+    if (filled.length > 1 && filled.every(cell => !NUMERIC_CELL.test(cell))) {
+      const key = cells.join('|');
+      repeats.set(key, (repeats.get(key) || 0) + 1);
+    }
+  });
+  const [headerKey, count] = Array.from(repeats.entries()).sort((a, b) => b[1] - a[1])[0] ?? ['', 0];
+  if (count < 2) return rows;
+
+  let headerSeen = false;
+  return rows.filter(cells => {
+    if (cells.join('|') !== headerKey) return true;
+    if (headerSeen) return false;
+    headerSeen = true;
+    return true;
+  });
+};
+
+// A dash ruler under a fixed-width header: one run of dashes per column.
+const FIXED_WIDTH_RULER = /^\s*-+(\s+-+)+\s*$/;
+
+const columnSpans = (line: string, separator: RegExp): { start: number; end: number }[] =>
+  Array.from(line.matchAll(separator), match => ({ start: match.index, end: match.index + match[0].length }));
+
+/**
+ * Column boundaries of a fixed-width header without a ruler. Header words are
+ * separated by at least two spaces; between two columns the cut goes at the
+ * first position blank on every line, so right-aligned quantities wider than
+ * their header stay whole.
+ */
+const boundariesFromHeader = (header: string, lines: string[]): number[] => {
+  const spans = columnSpans(header, /\S+(?: \S+)*/g);
+  return spans.slice(1).map((span, index) => {
+    const from = spans[index].end;
+    for (let position = from; position < span.start; position++) {
+      if (lines.every(line => line[position] === undefined || line[position] === ' ')) return position;
+    }
+    return span.start;
+  });
+};
+
+/**
+ * SAP "unconverted" list downloads and other report printouts align columns
+ * with spaces instead of delimiters. Column boundaries come from the dash
+ * ruler under the header when there is one (each cell spans its run of dashes
+ * up to the next one), otherwise from the header itself: the line among the
+ * first ones that splits into the most space-separated words.
+ */
+const parseFixedWidth = (lines: string[]): string[][] => {
+  const filled = lines.filter(line => line.trim() !== '');
+  const ruler = filled.find(line => FIXED_WIDTH_RULER.test(line));
+  let boundaries: number[];
+  if (ruler) {
+    boundaries = columnSpans(ruler, /-+/g).slice(1).map(span => span.start);
+  } else {
+    const sample = filled.slice(0, DELIMITER_SAMPLE_LINES);
+    const wordCount = (line: string) => columnSpans(line, /\S+(?: \S+)*/g).length;
+    const header = sample.reduce((best, line) => (wordCount(line) > wordCount(best) ? line : best), sample[0] ?? '');
+    boundaries = boundariesFromHeader(header, sample);
+  }
+  const starts = [0, ...boundaries];
+  return filled
+    .filter(line => line !== ruler && !SAP_RULE_LINE.test(line))
+    .map(line => starts.map((start, index) => line.slice(start, starts[index + 1]).trim()));
+};
+
+/**
+ * Decodes and splits a CSV, TSV, SAP `|`-delimited or fixed-width text export
+ * into rows of cells.
+ */
+export function parseDelimitedText(data: ArrayBuffer): ParsedText {
+  const bytes = new Uint8Array(data);
+  const encoding = detectTextEncoding(bytes);
+  const text = new TextDecoder(encoding).decode(bytes);
+  const lines = text.split(/\r\n|\n|\r/);
+  if (lines.some(line => FIXED_WIDTH_RULER.test(line)) || !lines.some(line => DELIMITERS.some(d => line.includes(d)))) {
+    return { rows: parseFixedWidth(lines), encoding };
+  }
+  const delimiter = detectDelimiter(lines);
+  const rows = delimiter === '|' ? parseSapList(lines) : parseQuoted(text, delimiter).map(cells => cells.map(cell => cell.trim()));
+  return { rows, encoding, delimiter };
+}
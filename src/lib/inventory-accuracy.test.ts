@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { computeInventoryAccuracy } from '@/lib/inventory-accuracy';
+import { reconcile } from '@/lib/reconcile';
+
+const sapRow = (sku: string, qty: string, almacen = 'PT01', centro = 'C1') =>
+  ({ Material: sku, 'Libre utilización': qty, Almacén: almacen, Centro: centro });
+
+const wmsRow = (sku: string, qty: string, almacen = 'PT01', centro = 'C1') =>
+  ({ SKU: sku, Cantidad: qty, Area: 'ALM', Ubicación: 'U1', 'AREA SAP': almacen, Centro: centro });
+
+describe('computeInventoryAccuracy', () => {
+  const analyse = (options = {}) => reconcile(
+    [sapRow('A', '100'), sapRow('B', '50'), sapRow('C', '50', 'PT02'), sapRow('D', '10', 'PT01', 'C2')],
+    [wmsRow('A', '100'), wmsRow('B', '40'), wmsRow('C', '49', 'PT02'), wmsRow('D', '10', 'PT01', 'C2')],
+    [],
+    { storageLocations: ['PT01', 'PT02'], ...options }
+  ).analysisReport;
+
+  it('reports record and unit accuracy overall, per centro and per storage location', () => {
+    const rows = computeInventoryAccuracy(analyse({ toleranceRules: [{ scope: 'todos', value: '', maxUnits: 1 }] }));
+    expect(rows.map(row => [row.Centro, row['Almacén'], row['Líneas'], row['Líneas Exactas'], row['Exactitud de Registros (%)'], row['Exactitud en Unidades (%)']])).toEqual([
+      ['Total', '', 4, 3, 75, 94.76],
+      ['C1', '', 3, 2, 66.67, 94.5],
+      ['C1', 'PT01', 2, 1, 50, 93.33],
+      ['C1', 'PT02', 1, 1, 100, 98],
+      ['C2', '', 1, 1, 100, 100],
+      ['C2', 'PT01', 1, 1, 100, 100],
+    ]);
+    expect(rows[0]).not.toHaveProperty('Exactitud en Valor (%)');
+  });
+
+  it('adds the value accuracy of priced lines when prices are available', () => {
+    const [total] = computeInventoryAccuracy(analyse({ prices: [{ sku: 'A', price: 1 }, { sku: 'B', price: 2 }] }));
+    expect(total['Exactitud en Valor (%)']).toBe(90);
+  });
+
+  it('is fully accurate only when nothing is on record and nothing was found', () => {
+    const [total] = computeInventoryAccuracy(reconcile([sapRow('A', '0')], [wmsRow('B', '3')], []).analysisReport);
+    expect(total['Exactitud en Unidades (%)']).toBe(0);
+  });
+});
@@ -0,0 +1,103 @@
+import type { AnalysisReportRow } from '@/lib/reconcile';
+import type { DifferenceStatus } from '@/lib/tolerances';
+
+/** Lines counted as accurate records: no difference, or one that is accepted or explained. */
+export const ACCURATE_STATUSES: DifferenceStatus[] = ['OK', 'Dentro de tolerancia', 'Explicada por traslado'];
+
+/** Inventory Record Accuracy (IRA) of a centro, a storage location or the whole analysis. */
+export type InventoryAccuracyRow = {
+  /** `Total` for the overall row. */
+  'Centro': string;
+  /** Storage location description; empty on centro and overall rows. */
+  'Almacén': string;
+  'Líneas': number;
+  'Líneas Exactas': number;
+  /** Share of lines whose status is in `ACCURATE_STATUSES`. */
+  'Exactitud de Registros (%)': number;
+  /** 100 minus the absolute difference in units as a percentage of the SAP stock, floored at 0. */
+  'Exactitud en Unidades (%)': number;
+  /** Same as the unit accuracy, in value; present when prices are available, empty without priced lines. */
+  'Exactitud en Valor (%)'?: number | '';
+};
+
+export const TOTAL_ACCURACY_LABEL = 'Total';
+
+type AccuracyTotals = {
+  lines: number;
+  accurateLines: number;
+  sapQty: number;
+  absoluteDifference: number;
+  sapValue: number;
+  absoluteValueDifference: number;
+  valuedLines: number;
+};
+
+const emptyTotals = (): AccuracyTotals => ({
+  lines: 0,
+  accurateLines: 0,
+  sapQty: 0,
+  absoluteDifference: 0,
+  sapValue: 0,
+  absoluteValueDifference: 0,
+  valuedLines: 0,
+});
+
+const roundPercent = (value: number): number => Math.round(value * 100) / 100;
+
+// Nothing on record counts as fully accurate only when nothing was found either.
+const accuracy = (absoluteDifference: number, base: number): number => {
+  if (base === 0) return absoluteDifference === 0 ? 100 : 0;
+  return roundPercent(Math.max(0, 1 - absoluteDifference / base) * 100);
+};
+
+const addLine = (totals: AccuracyTotals, row: AnalysisReportRow) => {
+  totals.lines++;
+  if (ACCURATE_STATUSES.includes(row.Estado)) totals.accurateLines++;
+  totals.sapQty += Math.abs(row['Stock SAP']);
+  totals.absoluteDifference += Math.abs(row.Diferencia);
+  if (typeof row['Valor SAP'] === 'number' && typeof row['Valor Diferencia'] === 'number') {
+    totals.valuedLines++;
+    totals.sapValue += Math.abs(row['Valor SAP']);
+    totals.absoluteValueDifference += Math.abs(row['Valor Diferencia']);
+  }
+};
+
+const toRow = (centro: string, almacen: string, totals: AccuracyTotals, valued: boolean): InventoryAccuracyRow => ({
+  'Centro': centro,
+  'Almacén': almacen,
+  'Líneas': totals.lines,
+  'Líneas Exactas': totals.accurateLines,
+  'Exactitud de Registros (%)': totals.lines > 0 ? roundPercent((totals.accurateLines / totals.lines) * 100) : 100,
+  'Exactitud en Unidades (%)': accuracy(totals.absoluteDifference, totals.sapQty),
+  ...(valued && {
+    'Exactitud en Valor (%)': totals.valuedLines > 0 ? accuracy(totals.absoluteValueDifference, totals.sapValue) : '',
+  }),
+});
+
+/**
+ * Inventory Record Accuracy of the analysis lines: the overall row first,
+ * then each centro followed by its storage locations.
+ */
+export function computeInventoryAccuracy(rows: AnalysisReportRow[]): InventoryAccuracyRow[] {
+  const valued = rows.some(row => 'Valor SAP' in row);
+  const overall = emptyTotals();
+  const byCentro = new Map<string, { totals: AccuracyTotals; byAlmacen: Map<string, AccuracyTotals> }>();
+  rows.forEach(row => {
+    const centro = byCentro.get(row.Centro) ?? { totals: emptyTotals(), byAlmacen: new Map() };
+    const almacenName = row['Descripción (Almacén)'] || 'INDEFINIDO';
+    const almacen = centro.byAlmacen.get(almacenName) ?? emptyTotals();
+    addLine(overall, row);
+    addLine(centro.totals, row);
+    addLine(almacen, row);
+    centro.byAlmacen.set(almacenName, almacen);
+    byCentro.set(row.Centro, centro);
+  });
+
+  return [
+    toRow(TOTAL_ACCURACY_LABEL, '', overall, valued),
+    ...Array.from(byCentro.entries()).flatMap(([centro, { totals, byAlmacen }]) => [
+      toRow(centro, '', totals, valued),
+      ...Array.from(byAlmacen.entries(), ([almacen, almacenTotals]) => toRow(centro, almacen, almacenTotals, valued)),
+    ]),
+  ];
+}
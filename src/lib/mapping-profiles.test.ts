@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyMappingProfile,
+  createMappingProfile,
+  headerFingerprint,
+  mergeMappingProfiles,
+  parseMappingProfiles,
+  serializeMappingProfiles,
+  suggestMappingProfile,
+} from '@/lib/mapping-profiles';
+
+const headers = ['Material', 'Libre utilización', 'Almacén', 'Centro', 'Texto breve de material'];
+const profile = createMappingProfile(' SAP MB52 ', 'sap', headers, {
+  sku: 'Material',
+  qty: 'Libre utilización',
+  almacen: 'Almacén',
+  centro: 'Centro',
+});
+
+describe('headerFingerprint', () => {
+  it('standardizes, deduplicates and sorts the headers', () => {
+    expect(headerFingerprint(['Centro', ' centro ', 'Almacén'])).toEqual(['almacén', 'centro']);
+  });
+});
+
+describe('suggestMappingProfile', () => {
+  it('suggests a profile for a similar header row of the same kind', () => {
+    expect(suggestMappingProfile([profile], 'sap', headers.map(header => header.toUpperCase()))).toBe(profile);
+    expect(suggestMappingProfile([profile], 'wms', headers)).toBeUndefined();
+  });
+
+  it('skips profiles whose columns the file lacks or that differ too much', () => {
+    expect(suggestMappingProfile([profile], 'sap', headers.filter(header => header !== 'Centro'))).toBeUndefined();
+    expect(suggestMappingProfile([profile], 'sap', [...headers, 'Lote', 'Unidad', 'Grupo'])).toBeUndefined();
+  });
+});
+
+describe('applyMappingProfile', () => {
+  it('maps to the headers of the current file', () => {
+    expect(applyMappingProfile(profile, ['MATERIAL', 'Libre  utilización', 'Almacén'])).toEqual({
+      sku: 'MATERIAL',
+      qty: 'Libre  utilización',
+      almacen: 'Almacén',
+    });
+  });
+});
+
+describe('profile files', () => {
+  it('round-trips profiles with new ids', () => {
+    const [imported] = parseMappingProfiles(serializeMappingProfiles([profile]));
+    expect(imported).toEqual({ ...profile, id: expect.any(String) });
+    expect(imported.id).not.toBe(profile.id);
+  });
+
+  it('rejects invalid files', () => {
+    expect(() => parseMappingProfiles('{')).toThrow('no es un JSON válido');
+    expect(() => parseMappingProfiles('[]')).toThrow('no contiene perfiles');
+    expect(() => parseMappingProfiles(JSON.stringify({ version: 1, profiles: [{ ...profile, kind: 'erp' }, null] })))
+      .toThrow('2 perfil(es) con formato inválido');
+  });
+
+  it('replaces profiles with the same name and kind on merge', () => {
+    const renamed = { ...profile, id: 'other', name: 'sap mb52' };
+    const wms = { ...profile, id: 'wms', kind: 'wms' as const };
+    expect(mergeMappingProfiles([profile, wms], [renamed])).toEqual([wms, renamed]);
+  });
+});
@@ -0,0 +1,125 @@
+import {
+  COLUMN_ROLES,
+  FILE_KINDS,
+  standardizeHeader,
+  type ColumnMapping,
+  type ColumnRole,
+  type FileKind,
+} from '@/lib/column-headers';
+
+export type MappingProfile = {
+  id: string;
+  /** Display name, e.g. "SAP MB52" or "WMS Manhattan inventory". */
+  name: string;
+  kind: FileKind;
+  /** Standardized, sorted header row of the file the profile was saved from. */
+  fingerprint: string[];
+  mapping: ColumnMapping;
+};
+
+type ProfilesFile = {
+  version: 1;
+  profiles: MappingProfile[];
+};
+
+/** Minimum header-row similarity for a profile to be suggested automatically. */
+const SUGGESTION_THRESHOLD = 0.8;
+
+export function headerFingerprint(headers: string[]): string[] {
+  return Array.from(new Set(headers.map(standardizeHeader))).sort();
+}
+
+export function createMappingProfile(name: string, kind: FileKind, headers: string[], mapping: ColumnMapping): MappingProfile {
+  return {
+    id: crypto.randomUUID(),
+    name: name.trim(),
+    kind,
+    fingerprint: headerFingerprint(headers),
+    mapping: { ...mapping },
+  };
+}
+
+const similarity = (a: string[], b: string[]): number => {
+  const setB = new Set(b);
+  const shared = a.filter(header => setB.has(header)).length;
+  const union = new Set([...a, ...b]).size;
+  return union === 0 ? 0 : shared / union;
+};
+
+/**
+ * Returns the profile whose fingerprint best matches `headers`, provided it is
+ * similar enough and every column it assigns exists in the file.
+ */
+export function suggestMappingProfile(profiles: MappingProfile[], kind: FileKind, headers: string[]): MappingProfile | undefined {
+  const fingerprint = headerFingerprint(headers);
+  const available = new Set(fingerprint);
+  let best: { profile: MappingProfile; score: number } | undefined;
+  profiles
+    .filter(profile => profile.kind === kind)
+    .forEach(profile => {
+      const mappedHeaders = Object.values(profile.mapping).filter((header): header is string => Boolean(header));
+      if (!mappedHeaders.every(header => available.has(standardizeHeader(header)))) return;
+      const score = similarity(profile.fingerprint, fingerprint);
+      if (score >= SUGGESTION_THRESHOLD && (!best || score > best.score)) best = { profile, score };
+    });
+  return best?.profile;
+}
+
+/**
+ * Translates a profile's assignments to the headers of the current file, which
+ * may differ in case or spacing. Columns the file lacks are left unmapped.
+ */
+export function applyMappingProfile(profile: MappingProfile, headers: string[]): ColumnMapping {
+  const byStandardized = new Map(headers.map(header => [standardizeHeader(header), header]));
+  const mapping: ColumnMapping = {};
+  (Object.entries(profile.mapping) as Array<[ColumnRole, string | undefined]>).forEach(([role, header]) => {
+    const match = header && byStandardized.get(standardizeHeader(header));
+    if (match) mapping[role] = match;
+  });
+  return mapping;
+}
+
+export function serializeMappingProfiles(profiles: MappingProfile[]): string {
+  const file: ProfilesFile = { version: 1, profiles };
+  return JSON.stringify(file, null, 2);
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const isMappingProfile = (value: unknown): value is MappingProfile =>
+  isRecord(value) &&
+  typeof value.name === 'string' && value.name.trim() !== '' &&
+  FILE_KINDS.some(kind => kind === value.kind) &&
+  Array.isArray(value.fingerprint) && value.fingerprint.every(header => typeof header === 'string') &&
+  isRecord(value.mapping) &&
+  Object.entries(value.mapping).every(([role, header]) => role in COLUMN_ROLES && typeof header === 'string');
+
+/** Parses a file written by `serializeMappingProfiles`. Imported profiles get new ids. */
+export function parseMappingProfiles(json: string): MappingProfile[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('El archivo de perfiles no es un JSON válido.');
+  }
+  if (!isRecord(data) || data.version !== 1 || !Array.isArray(data.profiles)) {
+    throw new Error('El archivo no contiene perfiles de mapeo reconocibles.');
+  }
+  const profiles: unknown[] = data.profiles;
+  const invalid = profiles.filter(profile => !isMappingProfile(profile)).length;
+  if (invalid > 0) {
+    throw new Error(`El archivo contiene ${invalid} perfil(es) con formato inválido.`);
+  }
+  return profiles.filter(isMappingProfile).map(profile => ({ ...profile, id: crypto.randomUUID() }));
+}
+
+/** Adds `incoming` profiles, replacing existing ones with the same name and file kind. */
+export function mergeMappingProfiles(existing: MappingProfile[], incoming: MappingProfile[]): MappingProfile[] {
+  const sameProfile = (a: MappingProfile, b: MappingProfile) =>
+    a.kind === b.kind && a.name.trim().toLowerCase() === b.name.trim().toLowerCase();
+  return [
+    ...existing.filter(profile => !incoming.some(other => sameProfile(profile, other))),
+    ...incoming,
+  ];
+}
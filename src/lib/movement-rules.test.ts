@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildMovementRuleMap,
+  customCategoryErrors,
+  movementCategoryName,
+  movementTitle,
+  type MovementRule,
+} from '@/lib/movement-rules';
+
+describe('buildMovementRuleMap', () => {
+  it('normalizes movement types and lets later rules win', () => {
+    const map = buildMovementRuleMap([
+      { claseMov: ' z42 ', category: 'merma', sign: 1 },
+      { claseMov: 'Z42', category: 'ignorar', sign: 1 },
+      { claseMov: '', category: 'inventario', sign: 1 },
+    ]);
+    expect(Array.from(map.keys())).toEqual(['Z42']);
+    expect(map.get('Z42')?.category).toBe('ignorar');
+  });
+});
+
+describe('movement titles', () => {
+  const rules: MovementRule[] = [
+    { claseMov: 'Z42', category: 'merma', sign: 1 },
+    { claseMov: 'Z43', category: 'merma', sign: -1 },
+    { claseMov: 'Z70', category: 'personalizada', customCategory: ' Daño ', sign: 1 },
+    { claseMov: 'Z71', category: 'personalizada', sign: 1 },
+  ];
+
+  it('names built-in and custom categories', () => {
+    expect(rules.map(movementCategoryName)).toEqual(['Merma', 'Merma', 'Daño', 'Categoría personalizada']);
+  });
+
+  it('lists the movement types of a category', () => {
+    expect(movementTitle(rules, 'Merma')).toBe('Merma (Z42, Z43)');
+    expect(movementTitle(rules, 'Vencimiento')).toBe('Vencimiento');
+  });
+});
+
+describe('customCategoryErrors', () => {
+  it('rejects reserved names and names differing only in case', () => {
+    const errors = customCategoryErrors([
+      { claseMov: 'Z70', category: 'personalizada', customCategory: 'merma', sign: 1 },
+      { claseMov: 'Z71', category: 'personalizada', customCategory: 'Daño', sign: 1 },
+      { claseMov: 'Z72', category: 'personalizada', customCategory: 'Daño', sign: 1 },
+      { claseMov: 'Z73', category: 'personalizada', customCategory: 'daño', sign: 1 },
+      { claseMov: 'Z74', category: 'personalizada', customCategory: 'Calidad de datos', sign: 1 },
+    ]);
+    expect(Array.from(errors.keys())).toEqual([0, 3, 4]);
+    expect(errors.get(0)).toContain('nombre reservado');
+    expect(errors.get(3)).toContain('solo difiere de "Daño"');
+  });
+});
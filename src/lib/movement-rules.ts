@@ -0,0 +1,99 @@
+import { DIFFERENCE_STATUSES } from '@/lib/tolerances';
+import { WORKBOOK_SHEETS } from '@/lib/workbook-sheets';
+
+export type MovementCategory = 'inventario' | 'merma' | 'vencimiento' | 'ignorar' | 'personalizada';
+
+export type MovementRule = {
+  /** SAP movement type (clase de movimiento), e.g. `Z42`. */
+  claseMov: string;
+  category: MovementCategory;
+  /** Name of the summary table when `category` is `'personalizada'`. */
+  customCategory?: string;
+  /** `1` keeps the quantity as posted in SAP, `-1` inverts it. */
+  sign: 1 | -1;
+};
+
+export const MOVEMENT_CATEGORY_LABELS: Record<MovementCategory, string> = {
+  inventario: 'Diferencia de Inventario',
+  merma: 'Merma',
+  vencimiento: 'Vencimiento',
+  ignorar: 'Ignorar',
+  personalizada: 'Categoría personalizada',
+};
+
+export const DEFAULT_MOVEMENT_RULES: MovementRule[] = [
+  { claseMov: 'Z59', category: 'inventario', sign: 1 },
+  { claseMov: 'Z60', category: 'inventario', sign: 1 },
+  { claseMov: 'Z65', category: 'inventario', sign: 1 },
+  { claseMov: 'Z66', category: 'inventario', sign: 1 },
+  { claseMov: 'Z42', category: 'merma', sign: 1 },
+  { claseMov: 'Z44', category: 'vencimiento', sign: 1 },
+];
+
+export const normalizeClaseMov = (value: unknown): string => String(value || '').trim().toUpperCase();
+
+/** Indexes the rules by movement type. Later rules win over earlier duplicates. */
+export function buildMovementRuleMap(rules: MovementRule[]): Map<string, MovementRule> {
+  const map = new Map<string, MovementRule>();
+  rules.forEach(rule => {
+    const claseMov = normalizeClaseMov(rule.claseMov);
+    if (claseMov) map.set(claseMov, rule);
+  });
+  return map;
+}
+
+/** Title used for a rule's summary table, e.g. "Merma" or the custom name. */
+export function movementCategoryName(rule: MovementRule): string {
+  if (rule.category === 'personalizada') {
+    return rule.customCategory?.trim() || MOVEMENT_CATEGORY_LABELS.personalizada;
+  }
+  return MOVEMENT_CATEGORY_LABELS[rule.category];
+}
+
+/** Movement types mapped to a category, for table titles such as "Merma (Z42)". */
+export function movementCodesFor(rules: MovementRule[], categoryName: string): string[] {
+  return rules
+    .filter(rule => rule.category !== 'ignorar' && movementCategoryName(rule) === categoryName)
+    .map(rule => normalizeClaseMov(rule.claseMov))
+    .filter(Boolean);
+}
+
+/** Category name followed by its movement types, e.g. "Merma (Z42)". */
+export function movementTitle(rules: MovementRule[], categoryName: string): string {
+  const codes = movementCodesFor(rules, categoryName);
+  return codes.length > 0 ? `${categoryName} (${codes.join(', ')})` : categoryName;
+}
+
+// Custom categories get their own table and workbook sheet, so they cannot
+// take the name of a built-in category, a status sheet or a fixed sheet.
+const RESERVED_CATEGORY_NAMES = [
+  ...(['inventario', 'merma', 'vencimiento', 'ignorar'] as const).map(category => MOVEMENT_CATEGORY_LABELS[category]),
+  ...DIFFERENCE_STATUSES,
+  ...Object.values(WORKBOOK_SHEETS),
+];
+
+// Excel compares sheet names regardless of case.
+const categoryKey = (name: string) => name.trim().toLowerCase();
+
+/**
+ * Why custom category names cannot be used, by rule index: reserved names,
+ * and names that differ from another one only in case.
+ */
+export function customCategoryErrors(rules: MovementRule[]): Map<number, string> {
+  const errors = new Map<number, string>();
+  const firstNames = new Map<string, string>();
+  rules.forEach((rule, index) => {
+    const name = rule.customCategory?.trim();
+    if (rule.category !== 'personalizada' || !name) return;
+    const key = categoryKey(name);
+    const first = firstNames.get(key);
+    if (RESERVED_CATEGORY_NAMES.some(reserved => categoryKey(reserved) === key)) {
+      errors.set(index, `"${name}" es un nombre reservado; elige otro nombre para la categoría.`);
+    } else if (first !== undefined && first !== name) {
+      errors.set(index, `"${name}" solo difiere de "${first}" en mayúsculas; usa el mismo nombre u otro distinto.`);
+    } else if (first === undefined) {
+      firstNames.set(key, name);
+    }
+  });
+  return errors;
+}
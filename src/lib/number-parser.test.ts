@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { detectNumberFormat, inspectNumberFormat, parseQuantity } from '@/lib/number-parser';
+
+describe('parseQuantity', () => {
+  it('reads both decimal conventions', () => {
+    expect(parseQuantity('1.234,5', 'es')).toBe(1234.5);
+    expect(parseQuantity('1,234.5', 'en')).toBe(1234.5);
+    expect(parseQuantity('12,5', 'es')).toBe(12.5);
+  });
+
+  it('reads SAP and accounting negatives and unit suffixes', () => {
+    expect(parseQuantity('25-', 'en')).toBe(-25);
+    expect(parseQuantity('(25)', 'en')).toBe(-25);
+    expect(parseQuantity('10 UN', 'en')).toBe(10);
+  });
+
+  it('treats blanks as zero and other text as NaN', () => {
+    expect(parseQuantity('', 'en')).toBe(0);
+    expect(parseQuantity(undefined, 'es')).toBe(0);
+    expect(parseQuantity('abc', 'en')).toBeNaN();
+    expect(parseQuantity('1,234.5', 'es')).toBeNaN();
+  });
+});
+
+describe('inspectNumberFormat', () => {
+  it('settles the format from unambiguous values', () => {
+    expect(inspectNumberFormat(['1.234,5', '12,5', '3'])).toEqual({ format: 'es', ambiguous: false });
+    expect(inspectNumberFormat(['1,234.5', '0.25'])).toEqual({ format: 'en', ambiguous: false });
+  });
+
+  it('flags values that read either way', () => {
+    expect(inspectNumberFormat(['1.200', '3'])).toEqual({ format: 'en', ambiguous: true });
+    expect(inspectNumberFormat(['1.200'], true)).toEqual({ format: 'es', ambiguous: true });
+  });
+
+  it('ignores numeric cells', () => {
+    expect(inspectNumberFormat([1200.5, 3])).toEqual({ format: 'en', ambiguous: false });
+  });
+});
+
+describe('detectNumberFormat', () => {
+  it('prefers the decimal comma on ties when hinted', () => {
+    expect(detectNumberFormat(['1.200'])).toBe('en');
+    expect(detectNumberFormat(['1.200'], true)).toBe('es');
+  });
+});
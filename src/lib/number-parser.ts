@@ -0,0 +1,111 @@
+/**
+ * Decimal convention of a file: `es` writes `1.234,5`, `en` writes `1,234.5`.
+ * `auto` detects it from the values of the quantity column.
+ */
+export type NumberFormat = 'auto' | 'es' | 'en';
+
+export type ResolvedNumberFormat = Exclude<NumberFormat, 'auto'>;
+
+export const NUMBER_FORMAT_LABELS: Record<NumberFormat, string> = {
+  auto: 'Automático',
+  es: '1.234,5 (coma decimal)',
+  en: '1,234.5 (punto decimal)',
+};
+
+/** Values inspected when detecting the decimal convention. */
+const DETECTION_SAMPLE_SIZE = 2000;
+
+const SEPARATOR_GROUPS = /^\d{1,3}([.,]\d{3})+$/;
+
+export type NumberFormatDetection = {
+  format: ResolvedNumberFormat;
+  /**
+   * No value settled the convention and some could be read either way, e.g.
+   * `1.200` (1200 or 1.2): `format` is then a guess that the user should confirm.
+   */
+  ambiguous: boolean;
+};
+
+/**
+ * Votes on the decimal convention of a column. A value with both separators
+ * settles it by which comes last; a single separator followed by other than
+ * three digits (`12,5`, `0.25`) is a decimal; a separator repeated in groups
+ * of three (`1.234.567`) is a thousands separator. Values such as `1,234`
+ * are ambiguous and do not vote. Ties keep `en`, the format SheetJS uses to
+ * render Excel numbers, unless `preferDecimalComma` hints at `es` (e.g. a
+ * `;`-delimited export, which spreadsheets write where the comma is decimal).
+ */
+export function inspectNumberFormat(values: unknown[], preferDecimalComma = false): NumberFormatDetection {
+  let es = 0;
+  let en = 0;
+  let undecided = 0;
+  values.slice(0, DETECTION_SAMPLE_SIZE).forEach(value => {
+    if (typeof value === 'number') return;
+    const text = String(value ?? '').replace(/[^\d.,]/g, '');
+    const lastComma = text.lastIndexOf(',');
+    const lastDot = text.lastIndexOf('.');
+    if (lastComma !== -1 && lastDot !== -1) {
+      if (lastComma > lastDot) es++;
+      else en++;
+    } else if (lastComma !== -1) {
+      if (SEPARATOR_GROUPS.test(text)) {
+        if (text.split(',').length > 2) en++;
+        else undecided++;
+      } else {
+        es++;
+      }
+    } else if (lastDot !== -1) {
+      if (SEPARATOR_GROUPS.test(text)) {
+        if (text.split('.').length > 2) es++;
+        else undecided++;
+      } else {
+        en++;
+      }
+    }
+  });
+  if (es !== en) return { format: es > en ? 'es' : 'en', ambiguous: false };
+  return { format: preferDecimalComma ? 'es' : 'en', ambiguous: es === 0 && undecided > 0 };
+}
+
+/** The decimal convention `inspectNumberFormat` settles on, guess or not. */
+export function detectNumberFormat(values: unknown[], preferDecimalComma = false): ResolvedNumberFormat {
+  return inspectNumberFormat(values, preferDecimalComma).format;
+}
+
+/**
+ * Parses a quantity cell written in `format`. Besides the separators it
+ * understands SAP trailing-minus negatives (`25-`), accounting parentheses
+ * (`(25)`) and unit suffixes (`10 UN`, `4 CJ`). Blank cells are zero; any
+ * other unreadable text is `NaN` so callers can count it.
+ */
+export function parseQuantity(value: unknown, format: ResolvedNumberFormat): number {
+  if (typeof value === 'number') return value;
+  let text = String(value ?? '').replace(/\s/g, '');
+  if (text === '') return 0;
+
+  let negative = false;
+  if (text.startsWith('(') && text.endsWith(')')) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  text = text.replace(/[a-záéíóúñ%]+\.?$/i, '');
+  if (text.endsWith('-')) {
+    negative = !negative;
+    text = text.slice(0, -1);
+  } else if (text.startsWith('-')) {
+    negative = !negative;
+    text = text.slice(1);
+  } else if (text.startsWith('+')) {
+    text = text.slice(1);
+  }
+
+  const thousands = format === 'es' ? '.' : ',';
+  const decimal = format === 'es' ? ',' : '.';
+  const t = `\\${thousands}`;
+  const d = `\\${decimal}`;
+  const valid = new RegExp(`^(\\d{1,3}(${t}\\d{3})+|\\d+)?(${d}\\d+)?$`);
+  if (!/\d/.test(text) || !valid.test(text)) return NaN;
+
+  const number = parseFloat(text.split(thousands).join('').replace(decimal, '.'));
+  return negative ? -number : number;
+}
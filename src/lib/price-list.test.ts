@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { buildPriceMap, formatAmount, parsePriceListRows } from '@/lib/price-list';
+import { DEFAULT_SKU_NORMALIZATION } from '@/lib/sku-normalization';
+
+describe('parsePriceListRows', () => {
+  it('divides the price by its price unit and keeps the currency', () => {
+    const rows = [
+      { Material: 'A', Precio: '1.500,00', 'Cantidad base': '1000', Moneda: 'clp' },
+      { Material: 'B', Precio: '2,50', 'Cantidad base': '', Moneda: 'CLP' },
+      { Material: 'C', Precio: 'n/d', 'Cantidad base': '1', Moneda: 'CLP' },
+    ];
+    expect(parsePriceListRows(rows)).toEqual([
+      { sku: 'A', price: 1.5, currency: 'CLP' },
+      { sku: 'B', price: 2.5, currency: 'CLP' },
+    ]);
+  });
+
+  it('refuses a list without material and price columns', () => {
+    expect(() => parsePriceListRows([{ Material: 'A', Importe: '10' }])).toThrow('Precio');
+  });
+});
+
+describe('buildPriceMap', () => {
+  it('keys prices by normalized material, the last duplicate winning', () => {
+    const map = buildPriceMap([{ sku: 'a', price: 1 }, { sku: 'A', price: 2 }], { ...DEFAULT_SKU_NORMALIZATION, uppercase: true });
+    expect(Array.from(map)).toEqual([['A', 2]]);
+  });
+});
+
+describe('formatAmount', () => {
+  it('formats ISO currencies and falls back to a plain number with the code', () => {
+    expect(formatAmount(1234.5, 'EUR')).toBe(new Intl.NumberFormat('es', { style: 'currency', currency: 'EUR' }).format(1234.5));
+    expect(formatAmount(12, 'XX1')).toBe('12 XX1');
+    expect(formatAmount(12.345)).toBe('12,35');
+  });
+});
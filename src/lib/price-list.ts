@@ -0,0 +1,77 @@
+import { findColumn, getHeaders } from '@/lib/column-headers';
+import { detectNumberFormat, parseQuantity } from '@/lib/number-parser';
+import type { SpreadsheetRow } from '@/lib/reconcile';
+import { normalizeSku, type SkuNormalization } from '@/lib/sku-normalization';
+
+/** Price of one SAP base unit of a material. */
+export type MaterialPrice = {
+  sku: string;
+  price: number;
+  currency?: string;
+};
+
+const SKU_SYNONYMS = ['material', 'sku', 'código', 'codigo', 'artículo', 'articulo'];
+const PRICE_SYNONYMS = ['precio unitario', 'precio estándar', 'precio estandar', 'precio medio variable', 'precio', 'costo unitario', 'costo', 'unit price', 'price'];
+/** SAP quotes prices per 1, 10, 100 or 1000 units ("Cantidad base" / "Por"). */
+const PRICE_UNIT_SYNONYMS = ['cantidad base', 'unidad de precio', 'por', 'price unit'];
+const CURRENCY_SYNONYMS = ['moneda', 'currency', 'mon.'];
+
+// Short synonyms such as "por" only match whole headers; inside others ("Importe") they are noise.
+const partialKeywords = (synonyms: string[]) => synonyms.filter(synonym => synonym.length > 3);
+
+/**
+ * Reads a price list with a material and a price column; a price unit column
+ * ("Cantidad base") divides the price and a currency column is kept. Rows
+ * without a material or a readable price are ignored.
+ */
+export function parsePriceListRows(rows: SpreadsheetRow[]): MaterialPrice[] {
+  const headers = getHeaders(rows);
+  const priceUnitHeader = findColumn(headers, PRICE_UNIT_SYNONYMS, { keywords: partialKeywords(PRICE_UNIT_SYNONYMS) });
+  const skuHeader = findColumn(headers, SKU_SYNONYMS, { keywords: partialKeywords(SKU_SYNONYMS), exclude: [priceUnitHeader] });
+  const priceHeader = findColumn(headers, PRICE_SYNONYMS, {
+    keywords: partialKeywords(PRICE_SYNONYMS),
+    exclude: [priceUnitHeader, skuHeader],
+  });
+  const currencyHeader = findColumn(headers, CURRENCY_SYNONYMS, {
+    keywords: partialKeywords(CURRENCY_SYNONYMS),
+    exclude: [priceUnitHeader, skuHeader, priceHeader],
+  });
+  if (!skuHeader || !priceHeader) {
+    throw new Error('La lista de precios debe tener columnas "Material" y "Precio".');
+  }
+
+  const priceFormat = detectNumberFormat(rows.map(row => row[priceHeader]));
+  return rows
+    .map(row => {
+      const priceUnit = priceUnitHeader ? parseQuantity(row[priceUnitHeader], priceFormat) : 1;
+      const currency = currencyHeader ? String(row[currencyHeader] ?? '').trim().toUpperCase() : '';
+      return {
+        sku: String(row[skuHeader] ?? '').trim(),
+        price: parseQuantity(row[priceHeader], priceFormat) / (priceUnit > 0 ? priceUnit : 1),
+        ...(currency && { currency }),
+      };
+    })
+    .filter(entry => entry.sku && !isNaN(entry.price));
+}
+
+/** Indexes the prices by normalized material. Later entries win over earlier duplicates. */
+export function buildPriceMap(prices: MaterialPrice[], rules?: SkuNormalization): Map<string, number> {
+  const map = new Map<string, number>();
+  prices.forEach(entry => {
+    const sku = normalizeSku(entry.sku, rules);
+    if (sku) map.set(sku, entry.price);
+  });
+  return map;
+}
+
+/** Formats an amount in `currency` when it is an ISO code, or as a plain number otherwise. */
+export function formatAmount(amount: number, currency?: string): string {
+  if (currency) {
+    try {
+      return new Intl.NumberFormat('es', { style: 'currency', currency }).format(amount);
+    } catch {
+      return `${new Intl.NumberFormat('es', { maximumFractionDigits: 2 }).format(amount)} ${currency}`;
+    }
+  }
+  return new Intl.NumberFormat('es', { maximumFractionDigits: 2 }).format(amount);
+}
@@ -0,0 +1,374 @@
+import * as XLSX from 'xlsx';
+import { describe, expect, it } from 'vitest';
+import { listStorageLocations, reconcile } from '@/lib/reconcile';
+import { readSheetRows, readWorkbook, summarizeSheets } from '@/lib/spreadsheet-reader';
+
+const sapRow = (sku: string, qty: string, extra: Record<string, string> = {}) =>
+  ({ Material: sku, 'Libre utilización': qty, Almacén: 'PT01', Centro: 'C1', Descripción: `Producto ${sku}`, ...extra });
+
+const wmsRow = (sku: string, qty: string, extra: Record<string, string> = {}) =>
+  ({ SKU: sku, Cantidad: qty, Area: 'ALM', Ubicación: 'U1', 'AREA SAP': 'PT01', ...extra });
+
+/**
+ * Round-trips a table through an .xlsx file, as if it had been uploaded.
+ * `numberFormats` gives the Excel number format of cells by address.
+ */
+const xlsxRows = (table: unknown[][], kind: 'sap' | 'wms', numberFormats: Record<string, string> = {}) => {
+  const worksheet = XLSX.utils.aoa_to_sheet(table, { cellDates: true });
+  Object.entries(numberFormats).forEach(([address, format]) => { worksheet[address].z = format; });
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, worksheet, 'Hoja1');
+  const loaded = readWorkbook(XLSX.write(workbook, { bookType: 'xlsx', type: 'array' }), 'stock.xlsx');
+  return readSheetRows(loaded, summarizeSheets(loaded, kind), ['Hoja1']);
+};
+
+describe('reconcile', () => {
+  it('compares stock per SKU and sums the posted inventory adjustments', () => {
+    const result = reconcile(
+      [sapRow('A', '10'), sapRow('B', '5'), sapRow('C', '3', { Almacén: 'PT02' })],
+      [wmsRow('A', '10'), wmsRow('B', '3')],
+      [{ Material: 'B', Cantidad: '2', 'Clase de movimiento': 'Z59' }]
+    );
+
+    expect(result.analysisReport.map(row => [row.SKU, row['Stock SAP'], row['Stock WMS'], row.Diferencia])).toEqual([
+      ['A', 10, 10, 0],
+      ['B', 5, 3, -2],
+    ]);
+    expect(result.analysisReport[1]['Ajuste Mensual (Dif. Inventario)']).toBe(2);
+  });
+});
+
+describe('number formats', () => {
+  it('reports an ambiguous number format and honours the decimal-comma hint', () => {
+    const result = reconcile([sapRow('A', '1.200')], [wmsRow('A', '1200')], [], { decimalCommaHints: { sap: true } });
+
+    expect(result.numberFormats.sap).toBe('es');
+    expect(result.analysisReport[0]['Stock SAP']).toBe(1200);
+    expect(result.dataQualityReport.some(issue => issue.Archivo === 'SAP' && issue.Motivo.startsWith('Formato numérico ambiguo'))).toBe(true);
+  });
+
+  it('reads formatted numeric xlsx cells by value, whatever the format of the file', () => {
+    const sap = xlsxRows([
+      ['Material', 'Libre utilización', 'Almacén', 'Centro'],
+      [1234, 1200, 'PT01', 'C1'],
+      [{ t: 'n', v: 123 }, 5, 'PT01', 'C1'],
+    ], 'sap', { B2: '#,##0', A3: '000000' });
+    const result = reconcile(sap, [wmsRow('1234', '1200'), wmsRow('000123', '5')], [], { numberFormats: { sap: 'es' } });
+
+    expect(result.dataQualityReport.filter(issue => issue.Motivo.startsWith('Formato numérico ambiguo'))).toEqual([]);
+    expect(result.analysisReport.map(row => [row.SKU, row['Stock SAP'], row.Diferencia])).toEqual([['1234', 1200, 0], ['000123', 5, 0]]);
+  });
+});
+
+describe('storage locations', () => {
+  const sap = [sapRow('A', '10'), sapRow('C', '3', { Almacén: 'pt02' })];
+  const wms = [wmsRow('A', '10'), wmsRow('C', '3', { 'AREA SAP': 'PT02' })];
+
+  it('reconciles only PT01 by default', () => {
+    expect(reconcile(sap, wms).analysisReport.map(row => row.SKU)).toEqual(['A']);
+  });
+
+  it('reconciles the selected locations, ignoring case', () => {
+    const result = reconcile(sap, wms, [], { storageLocations: ['PT01', 'PT02'] });
+    expect(result.analysisReport.map(row => [row['Descripción (Almacén)'], row.SKU])).toEqual([['PT01', 'A'], ['PT02', 'C']]);
+  });
+
+  it('rejects an empty selection', () => {
+    expect(() => reconcile(sap, wms, [], { storageLocations: [] })).toThrow('Selecciona al menos un almacén');
+  });
+
+  it('lists the distinct locations of every extract', () => {
+    expect(listStorageLocations({ rows: sap, kind: 'sap' }, { rows: [...wms, wmsRow('D', '1', { 'AREA SAP': 'PT03' })], kind: 'wms' }))
+      .toEqual(['PT01', 'PT02', 'PT03']);
+  });
+});
+
+describe('centro keys', () => {
+  const sap = [sapRow('A', '10'), sapRow('A', '4', { Centro: 'C2' })];
+
+  it('keeps the same material of two plants on separate lines', () => {
+    const result = reconcile(sap, [wmsRow('A', '10', { Centro: 'C1' }), wmsRow('A', '4', { Centro: 'C2' })]);
+    expect(result.analysisReport.map(row => [row.Centro, row['Stock SAP'], row['Stock WMS'], row.Estado])).toEqual([
+      ['C1', 10, 10, 'OK'],
+      ['C2', 4, 4, 'OK'],
+    ]);
+  });
+
+  it('attributes rows without a plant to the only plant holding the material', () => {
+    const result = reconcile([sapRow('A', '10'), sapRow('B', '2', { Centro: 'C2' })], [wmsRow('A', '10'), wmsRow('B', '2')]);
+    expect(result.analysisReport.map(row => [row.Centro, row.SKU, row.Estado])).toEqual([['C1', 'A', 'OK'], ['C2', 'B', 'OK']]);
+    expect(result.dataQualityReport).toEqual([]);
+  });
+
+  it('leaves out and reports rows whose plant is ambiguous', () => {
+    const result = reconcile(sap, [wmsRow('A', '10'), wmsRow('A', '4')]);
+    expect(result.analysisReport.map(row => [row.Centro, row['Stock WMS']])).toEqual([['C1', 0], ['C2', 0]]);
+    expect(result.dataQualityReport).toEqual([{
+      Archivo: 'WMS',
+      Fila: 2,
+      Tipo: 'Fila omitida',
+      SKU: 'A',
+      Motivo: 'Sin columna de Centro y el material está en varios centros (C1, C2): 2 fila(s) omitida(s) desde esta. Asigna la columna Centro.',
+    }]);
+  });
+});
+
+describe('lot level', () => {
+  const lotStatuses = (sap: Record<string, unknown>[], wms: Record<string, unknown>[]) =>
+    reconcile(sap, wms, [], { lotLevel: true }).lotReport!.map(lot => [lot.Lote, lot['Vencimiento SAP'], lot['Vencimiento WMS'], lot.Estado]);
+
+  it('matches lots and compares day-first text dates', () => {
+    expect(lotStatuses(
+      [sapRow('A', '6', { Lote: 'L1', 'Fecha de vencimiento': '31.12.2025' }), sapRow('A', '4', { Lote: 'L2', 'Fecha de vencimiento': '01.06.2026' })],
+      [wmsRow('A', '6', { Lote: 'L1', Vencimiento: '31/12/25' }), wmsRow('A', '4', { Lote: 'L2', Vencimiento: '2026-07-01' })]
+    )).toEqual([
+      ['L1', '2025-12-31', '2025-12-31', 'OK'],
+      ['L2', '2026-06-01', '2026-07-01', 'Vencimiento distinto'],
+    ]);
+  });
+
+  it('keeps text that is not a valid day-first date as written', () => {
+    expect(lotStatuses(
+      [sapRow('A', '6', { Lote: 'L1', 'Fecha de vencimiento': '31.12.2025' })],
+      [wmsRow('A', '6', { Lote: 'L1', Vencimiento: '12/31/25' })]
+    )).toEqual([['L1', '2025-12-31', '12/31/25', 'Vencimiento distinto']]);
+  });
+
+  it('reads expiry dates from xlsx date cells', () => {
+    const wms = xlsxRows([
+      ['SKU', 'Cantidad', 'Area', 'Ubicación', 'AREA SAP', 'Lote', 'Vencimiento'],
+      ['A', 6, 'ALM', 'U1', 'PT01', 'L1', new Date(2025, 11, 31)],
+    ], 'wms');
+
+    expect(lotStatuses([sapRow('A', '6', { Lote: 'L1', 'Fecha de vencimiento': '31.12.2025' })], wms))
+      .toEqual([['L1', '2025-12-31', '2025-12-31', 'OK']]);
+  });
+});
+
+describe('movement rules', () => {
+  const sap = [sapRow('A', '10'), sapRow('B', '5', { Centro: 'C2' })];
+  const wms = [wmsRow('A', '10'), wmsRow('B', '5')];
+  const adjustments = [
+    { Material: 'A', Cantidad: '3', 'Clase de movimiento': 'Z42' },
+    { Material: 'B', Cantidad: '2', 'Clase de movimiento': 'z42' },
+    { Material: 'A', Cantidad: '1', 'Clase de movimiento': 'Z70' },
+    { Material: 'A', Cantidad: '4', 'Clase de movimiento': 'Z99' },
+  ];
+
+  it('sums each category per centro, applying the rule sign', () => {
+    const result = reconcile(sap, wms, adjustments, {
+      movementRules: [
+        { claseMov: 'Z42', category: 'merma', sign: -1 },
+        { claseMov: 'Z70', category: 'personalizada', customCategory: 'Daño', sign: 1 },
+        { claseMov: 'Z99', category: 'ignorar', sign: 1 },
+      ],
+    });
+
+    expect(result.mermaReport).toEqual([{ Centro: 'C1', 'Suma de Cantidad': -3 }, { Centro: 'C2', 'Suma de Cantidad': -2 }]);
+    expect(result.customMovementReports).toEqual([{ category: 'Daño', rows: [{ Centro: 'C1', 'Suma de Cantidad': 1 }] }]);
+    expect(result.movementSkus).toEqual({ Merma: ['A', 'B'], Daño: ['A'] });
+    expect(result.analysisReport.every(row => row['Ajuste Mensual (Dif. Inventario)'] === 0)).toBe(true);
+  });
+
+  it('refuses custom categories with reserved names', () => {
+    expect(() => reconcile(sap, wms, adjustments, {
+      movementRules: [{ claseMov: 'Z70', category: 'personalizada', customCategory: 'Vencimiento', sign: 1 }],
+    })).toThrow('nombre reservado');
+  });
+});
+
+describe('column mappings', () => {
+  it('reads the columns the user assigned', () => {
+    const result = reconcile(
+      [{ Código: 'A', 'Stock contable': '10', Alm: 'PT01', Planta: 'C1' }],
+      [wmsRow('A', '10')],
+      [],
+      { columnMappings: { sap: { sku: 'Código', qty: 'Stock contable', almacen: 'Alm', centro: 'Planta' } } }
+    );
+    expect(result.analysisReport.map(row => [row.Centro, row.SKU, row.Estado])).toEqual([['C1', 'A', 'OK']]);
+  });
+
+  it('names the required columns that are missing', () => {
+    expect(() => reconcile([{ Material: 'A', Cantidad: '1' }], [wmsRow('A', '1')]))
+      .toThrow('Columnas requeridas no encontradas en archivo SAP: Almacén/AREA SAP, Centro.');
+  });
+});
+
+describe('data quality', () => {
+  it('skips unreadable quantities and reports them', () => {
+    const result = reconcile([sapRow('A', '10')], [wmsRow('A', '10'), wmsRow('X', 'abc')], []);
+
+    expect(result.unparseableQuantities.wms).toBe(1);
+    expect(result.dataQualityReport).toEqual([
+      { Archivo: 'WMS', Fila: 3, Tipo: 'Fila omitida', SKU: 'X', Motivo: 'Cantidad no numérica: "abc".' },
+    ]);
+  });
+
+  it('flags duplicate rows, negative stock, blank SKUs and stripped leading zeros', () => {
+    const result = reconcile(
+      [sapRow('000123', '10'), sapRow('', '5'), sapRow('B', '-3'), sapRow('B', '-3'), sapRow('B', '-3', { Lote: 'L2' })],
+      [wmsRow('123', '10'), wmsRow('B', '2', { Ubicación: 'U1' }), wmsRow('B', '2', { Ubicación: 'U2' })],
+      []
+    );
+
+    expect(result.dataQualityReport.map(issue => [issue.Archivo, issue.Fila, issue.SKU, issue.Motivo.split(/[.;]/)[0]])).toEqual([
+      ['SAP', 3, '', 'SKU vacío'],
+      ['SAP', 4, 'B', 'Stock negativo (-3)'],
+      ['SAP', 5, 'B', 'Fila duplicada (igual a la fila 4)'],
+      ['SAP', 5, 'B', 'Stock negativo (-3)'],
+      ['SAP', 6, 'B', 'Stock negativo (-3)'],
+      ['WMS', 2, '123', 'El SKU coincide con 000123 del otro archivo salvo por los ceros a la izquierda'],
+    ]);
+  });
+
+  it('reports adjustment rows without a movement type once', () => {
+    const result = reconcile([sapRow('A', '10')], [wmsRow('A', '10')], [
+      { Material: 'A', Cantidad: '1', 'Clase de movimiento': '' },
+      { Material: 'A', Cantidad: '2', 'Clase de movimiento': ' ' },
+    ]);
+
+    expect(result.dataQualityReport).toEqual([
+      { Archivo: 'Ajustes', Fila: 2, Tipo: 'Fila omitida', SKU: '', Motivo: 'Sin clase de movimiento: 2 fila(s) omitida(s) desde esta.' },
+    ]);
+  });
+});
+
+describe('SKU cross-reference', () => {
+  it('maps WMS codes to SAP materials and lists codes found in neither', () => {
+    const result = reconcile(
+      [sapRow('A', '24')],
+      [wmsRow('CJ-A', '2'), wmsRow('Z9', '4'), wmsRow('Z9', '1')],
+      [],
+      { skuCrossReference: [{ wmsSku: 'CJ-A', sapSku: 'A', factor: 12 }] }
+    );
+
+    expect(result.analysisReport.map(row => [row.SKU, row['Stock SAP'], row['Stock WMS'], row.Estado])).toEqual([['A', 24, 24, 'OK']]);
+    expect(result.unmappedWmsReport).toEqual([{ 'Descripción (Almacén)': 'PT01', 'SKU WMS': 'Z9', 'Cantidad': 5, 'Filas': 2 }]);
+  });
+});
+
+describe('unit conversion', () => {
+  const unitConversions = [{ sku: 'A', unit: 'CJ', baseUnit: 'UN', factor: 12 }];
+
+  it('compares quantities in the SAP unit and warns once per missing conversion', () => {
+    const result = reconcile(
+      [sapRow('A', '30', { 'Unidad de medida': 'UN' }), sapRow('B', '1', { 'Unidad de medida': 'UN' })],
+      [
+        wmsRow('A', '2', { 'Unidad de medida': 'CJ' }),
+        wmsRow('A', '6', { 'Unidad de medida': 'UN' }),
+        wmsRow('B', '1', { 'Unidad de medida': 'PAL' }),
+        wmsRow('B', '1', { 'Unidad de medida': 'PAL', Ubicación: 'U2' }),
+      ],
+      [],
+      { unitConversions }
+    );
+
+    expect(result.analysisReport.map(row => [row.SKU, row['Stock WMS'], row['Stock WMS (original)'], row.Estado])).toEqual([
+      ['A', 30, '2 CJ + 6 UN', 'OK'],
+      ['B', 2, '2 PAL', 'Sobrante'],
+    ]);
+    expect(result.dataQualityReport.map(issue => [issue.Fila, issue.Motivo])).toEqual([
+      [4, 'Sin conversión de PAL a UN; la cantidad se compara sin convertir.'],
+    ]);
+  });
+
+  it('applies the cross-reference factor without converting the WMS unit again', () => {
+    const result = reconcile(
+      [sapRow('A', '24', { 'Unidad de medida': 'UN' })],
+      [wmsRow('CJ-A', '2', { 'Unidad de medida': 'CJ' })],
+      [],
+      { skuCrossReference: [{ wmsSku: 'CJ-A', sapSku: 'A', factor: 12 }], unitConversions }
+    );
+
+    const [row] = result.analysisReport;
+    expect(row['Stock WMS']).toBe(24);
+    expect(row.Estado).toBe('OK');
+    expect(row['Stock WMS (original)']).toBe('2 CJ');
+  });
+});
+
+describe('tolerances', () => {
+  it('applies the most specific rule to each line and counts the statuses', () => {
+    const result = reconcile(
+      [sapRow('A', '100', { 'Grupo de artículos': 'G1' }), sapRow('B', '100'), sapRow('C', '5'), sapRow('D', '5')],
+      [wmsRow('A', '98'), wmsRow('B', '103'), wmsRow('C', '5'), wmsRow('E', '1')],
+      [],
+      { toleranceRules: [{ scope: 'grupo', value: 'g1', maxPercent: 5 }, { scope: 'todos', value: '', maxUnits: 1 }] }
+    );
+
+    expect(result.analysisReport.map(row => [row.SKU, row.Diferencia, row.Estado])).toEqual([
+      ['A', -2, 'Dentro de tolerancia'],
+      ['B', 3, 'Sobrante'],
+      ['C', 0, 'OK'],
+      ['D', -5, 'Solo SAP'],
+      ['E', 1, 'Solo WMS'],
+    ]);
+    expect(result.statusSummary.map(row => row['Cantidad de Líneas'])).toEqual([1, 1, 0, 1, 0, 1, 1]);
+  });
+});
+
+describe('valuation', () => {
+  it('values lines with the price list, else with the SAP value column', () => {
+    const result = reconcile(
+      [sapRow('A', '100'), sapRow('C', '10', { 'Valor libre util.': '50' })],
+      [wmsRow('A', '98'), wmsRow('C', '12')],
+      [],
+      { prices: [{ sku: 'A', price: 1.5, currency: 'CLP' }] }
+    );
+
+    expect(result.analysisReport.map(row => [row.SKU, row['Valor SAP'], row['Valor WMS'], row['Valor Diferencia']])).toEqual([
+      ['A', 150, 147, -3],
+      ['C', 50, 60, 10],
+    ]);
+  });
+
+  it('leaves the value columns out without prices or a value column', () => {
+    const result = reconcile([sapRow('A', '100')], [wmsRow('A', '98')], []);
+    expect(result.analysisReport[0]).not.toHaveProperty('Valor SAP');
+  });
+});
+
+describe('residual difference', () => {
+  it('subtracts the posted adjustments per line and sums all three figures per centro', () => {
+    const result = reconcile(
+      [sapRow('A', '10'), sapRow('B', '5'), sapRow('C', '8', { Centro: 'C2' })],
+      [wmsRow('A', '7'), wmsRow('B', '6'), wmsRow('C', '8', { Centro: 'C2' })],
+      [{ Material: 'A', Cantidad: '2', 'Clase de movimiento': 'Z59' }]
+    );
+
+    expect(result.analysisReport.map(row => [row.SKU, row.Diferencia, row['Ajuste Mensual (Dif. Inventario)'], row['Diferencia Residual']])).toEqual([
+      ['A', -3, 2, -5],
+      ['B', 1, 0, 1],
+      ['C', 0, 0, 0],
+    ]);
+    expect(result.diferenciaReport).toEqual([
+      { Centro: 'C1', Diferencia: -2, 'Ajuste Mensual (Dif. Inventario)': 2, 'Diferencia Residual': -4 },
+    ]);
+  });
+});
+
+describe('transfer stock', () => {
+  const wms = [
+    wmsRow('A', '10', { Area: 'AREA STAGE 1', Ubicación: '701', 'AREA SAP': 'TR01' }),
+    wmsRow('B', '6'),
+    wmsRow('B', '3', { Area: 'DOCK', Ubicación: 'D-12' }),
+  ];
+  const transferStatuses = (explainsDifference: boolean) =>
+    reconcile([sapRow('A', '10'), sapRow('B', '10')], wms, [], {
+      transferRule: { areaPrefixes: ['AREA STAGE', 'DOCK'], locationPatterns: ['7*', 'D-??'], explainsDifference },
+    }).analysisReport.map(row => [row.SKU, row.Diferencia, row['Stock para Traslado'], row.Estado]);
+
+  it('reports staged stock, attributing it to a selected location when its own is not', () => {
+    expect(transferStatuses(false)).toEqual([
+      ['A', -10, 10, 'Solo SAP'],
+      ['B', -1, 3, 'Faltante'],
+    ]);
+  });
+
+  it('explains differences covered by staged stock when the rule says so', () => {
+    expect(transferStatuses(true)).toEqual([
+      ['A', -10, 10, 'Explicada por traslado'],
+      ['B', -1, 3, 'Explicada por traslado'],
+    ]);
+  });
+});
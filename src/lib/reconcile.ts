@@ -0,0 +1,909 @@
+import {
+  COLUMN_ROLES,
+  FILE_LABELS,
+  detectColumnMapping,
+  getHeaders,
+  missingColumnRoles,
+  type ColumnMapping,
+  type FileKind,
+} from '@/lib/column-headers';
+import {
+  DEFAULT_MOVEMENT_RULES,
+  buildMovementRuleMap,
+  customCategoryErrors,
+  movementCategoryName,
+  normalizeClaseMov,
+  type MovementRule,
+} from '@/lib/movement-rules';
+import {
+  NUMBER_FORMAT_LABELS,
+  detectNumberFormat,
+  inspectNumberFormat,
+  parseQuantity,
+  type NumberFormat,
+  type ResolvedNumberFormat,
+} from '@/lib/number-parser';
+import { DEFAULT_SKU_NORMALIZATION, normalizeSku, type SkuNormalization } from '@/lib/sku-normalization';
+import { buildCrossReferenceMap, type SkuCrossReference } from '@/lib/sku-cross-reference';
+import { computeInventoryAccuracy, type InventoryAccuracyRow } from '@/lib/inventory-accuracy';
+import { buildPriceMap, type MaterialPrice } from '@/lib/price-list';
+import {
+  DIFFERENCE_STATUSES,
+  classifyDifference,
+  findToleranceRule,
+  type DifferenceStatus,
+  type ToleranceRule,
+} from '@/lib/tolerances';
+import { DEFAULT_TRANSFER_RULE, buildTransferMatcher, type TransferStockRule } from '@/lib/transfer-rules';
+import { buildUnitConverter, normalizeUnit, type UnitConversion } from '@/lib/unit-conversion';
+
+export type SpreadsheetRow = Record<string, any>;
+
+export type AnalysisReportRow = {
+  'Centro': string;
+  'Descripción (Almacén)': string;
+  'SKU': string;
+  'Nombre Prod': string;
+  'Stock SAP': number;
+  'Stock WMS': number;
+  'Diferencia': number;
+  'Estado': DifferenceStatus;
+  'Ajuste Mensual (Dif. Inventario)': number;
+  /** Difference still unexplained after the posted adjustments: Diferencia minus Ajuste Mensual. */
+  'Diferencia Residual': number;
+  'Stock para Traslado': number;
+  /** Present when prices are available; empty for materials without a price. */
+  'Valor SAP'?: number | '';
+  'Valor WMS'?: number | '';
+  'Valor Diferencia'?: number | '';
+  'Valor Residual'?: number | '';
+  /** Present when a unit column is mapped: the common unit quantities are expressed in. */
+  'UM'?: string;
+  /** Quantities as read from the file, per unit, e.g. `2 CJ + 6 UN`. */
+  'Stock SAP (original)'?: string;
+  'Stock WMS (original)'?: string;
+};
+
+export type LotStatus = 'OK' | 'Solo SAP' | 'Solo WMS' | 'Vencimiento distinto' | 'Diferencia de cantidad';
+
+export type LotReportRow = {
+  'Centro': string;
+  'Descripción (Almacén)': string;
+  'SKU': string;
+  'Lote': string;
+  'Stock SAP': number;
+  'Stock WMS': number;
+  'Diferencia': number;
+  'Vencimiento SAP': string;
+  'Vencimiento WMS': string;
+  'Estado': LotStatus;
+};
+
+export type DataQualityIssue = {
+  'Archivo': string;
+  /** Sheet row as shown in Excel; empty for issues that concern the whole file. */
+  'Fila': number | '';
+  'Tipo': 'Fila omitida' | 'Advertencia';
+  'SKU': string;
+  'Motivo': string;
+};
+
+/** WMS stock whose item code is neither an SAP material nor in the cross-reference table. */
+export type UnmappedWmsRow = {
+  'Descripción (Almacén)': string;
+  'SKU WMS': string;
+  'Cantidad': number;
+  'Filas': number;
+};
+
+export type StatusCountRow = { Estado: DifferenceStatus; 'Cantidad de Líneas': number };
+
+export type CentroDifferenceRow = {
+  Centro: string;
+  'Diferencia': number;
+  'Ajuste Mensual (Dif. Inventario)': number;
+  'Diferencia Residual': number;
+  'Valor Diferencia'?: number;
+  'Valor Residual'?: number;
+};
+
+export type CentroQuantityRow = { Centro: string; 'Suma de Cantidad': number; 'Valor'?: number };
+
+export type MovementCategoryReport = {
+  category: string;
+  rows: CentroQuantityRow[];
+};
+
+export type AnalysisResult = {
+  analysisReport: AnalysisReportRow[];
+  /** Only present when the run was made with `lotLevel: true`. */
+  lotReport?: LotReportRow[];
+  mermaReport: CentroQuantityRow[];
+  vencimientoReport: CentroQuantityRow[];
+  /** One summary per custom movement category, in rule order. */
+  customMovementReports: MovementCategoryReport[];
+  /** Decimal convention applied to each file's quantity column. */
+  numberFormats: Partial<Record<FileKind, ResolvedNumberFormat>>;
+  /** Quantity cells per file that could not be read as numbers; their rows are skipped. */
+  unparseableQuantities: Partial<Record<FileKind, number>>;
+  /** Analysis lines per status, in `DIFFERENCE_STATUSES` order. */
+  statusSummary: StatusCountRow[];
+  /** Inventory Record Accuracy overall, per centro and per storage location. */
+  accuracyReport: InventoryAccuracyRow[];
+  /** Rows left out of the analysis and rows that were used but look suspicious. */
+  dataQualityReport: DataQualityIssue[];
+  /** Only filled when a cross-reference table was given; these items are not in `analysisReport`. */
+  unmappedWmsReport: UnmappedWmsRow[];
+  summaryChartData: Array<{ name: string; value: number; fill: string }>;
+  /** Materials with posted adjustments, per movement category name (e.g. "Merma"). */
+  movementSkus: Record<string, string[]>;
+  /** Raw difference, posted adjustments and residual difference per centro. */
+  diferenciaReport: CentroDifferenceRow[];
+  /** Currency of the amounts; empty when unknown or when there is no valuation. */
+  currency: string;
+};
+
+export type ReconcileOptions = {
+  /**
+   * Storage locations (AREA SAP / Almacén) to reconcile. Rows in any other
+   * location are ignored. Defaults to `DEFAULT_STORAGE_LOCATIONS`.
+   */
+  storageLocations?: string[];
+  /**
+   * Also reconcile per SKU + lote. Requires a Lote column in both extracts;
+   * the expiry date column is optional and compared when present.
+   */
+  lotLevel?: boolean;
+  /**
+   * How each adjustment movement type is classified. Movement types without a
+   * rule are ignored. Defaults to `DEFAULT_MOVEMENT_RULES`.
+   */
+  movementRules?: MovementRule[];
+  /**
+   * Column assignments confirmed by the user. Files without an entry are
+   * mapped automatically with `detectColumnMapping`.
+   */
+  columnMappings?: Partial<Record<FileKind, ColumnMapping>>;
+  /** Decimal convention of each file's quantities. Defaults to `'auto'`. */
+  numberFormats?: Partial<Record<FileKind, NumberFormat>>;
+  /**
+   * Files whose source suggests a decimal comma, such as `;`-delimited text
+   * exports. Used by `'auto'` when the values alone do not settle the format.
+   */
+  decimalCommaHints?: Partial<Record<FileKind, boolean>>;
+  /**
+   * Applied to the SKU of every SAP, WMS and adjustment row before keying, so
+   * the extracts match despite padding, prefixes or case. Defaults to
+   * `DEFAULT_SKU_NORMALIZATION`, which only trims.
+   */
+  skuNormalization?: SkuNormalization;
+  /**
+   * WMS item codes to translate to SAP materials, with the factor converting
+   * WMS units to SAP units. When given, WMS items that are neither in the
+   * table nor in the SAP extract are reported in `unmappedWmsReport` instead
+   * of appearing as lines without SAP stock.
+   */
+  skuCrossReference?: SkuCrossReference[];
+  /**
+   * Alternative units per material. Rows whose unit column differs from the
+   * material's SAP base unit are converted with it before comparison.
+   */
+  unitConversions?: UnitConversion[];
+  /**
+   * Differences accepted per centro or material group. Lines whose difference
+   * stays within the matching rule get the status "Dentro de tolerancia".
+   */
+  toleranceRules?: ToleranceRule[];
+  /**
+   * Unit prices per material (per SAP base unit). Materials missing here are
+   * valued with the SAP extract's stock value column, when mapped.
+   */
+  prices?: MaterialPrice[];
+  /** Which WMS rows are staged transfer stock. Defaults to `DEFAULT_TRANSFER_RULE`. */
+  transferRule?: TransferStockRule;
+  /**
+   * Called before each stage and every few thousand rows so callers can report
+   * progress; `fraction` (0 to 1) is the share of the work already done.
+   */
+  onProgress?: (message: string, fraction: number) => void;
+};
+
+type StockEntry = {
+  sku: string;
+  sapQty: number;
+  wmsQty: number;
+  adjustment: number;
+  stockParaTraslado: number;
+  centro: string;
+  nombreProd: string;
+  descAlmacen: string;
+  grupo: string;
+  inSap: boolean;
+  inWms: boolean;
+  unit: string;
+  sapOriginal: Map<string, number>;
+  wmsOriginal: Map<string, number>;
+};
+
+export const DEFAULT_STORAGE_LOCATIONS = ['PT01'];
+
+type LotEntry = {
+  centro: string;
+  almacen: string;
+  sku: string;
+  lote: string;
+  sapQty: number;
+  wmsQty: number;
+  inSap: boolean;
+  inWms: boolean;
+  sapExpiry: string;
+  wmsExpiry: string;
+};
+
+const addOriginal = (originals: Map<string, number>, unit: string, qty: number) => {
+  originals.set(unit, (originals.get(unit) || 0) + qty);
+};
+
+const formatOriginal = (originals: Map<string, number>): string =>
+  Array.from(originals.entries())
+    .map(([unit, qty]) => `${Math.round(qty * 1000) / 1000} ${unit}`.trim())
+    .join(' + ');
+
+const addCentro = (centros: Map<string, Set<string>>, key: string, centro: string) => {
+  const known = centros.get(key);
+  if (known) known.add(centro);
+  else centros.set(key, new Set([centro]));
+};
+
+const roundAmount = (value: number): number => Math.round(value * 100) / 100;
+
+type CentroTotals = Map<string, { cantidad: number; valor: number }>;
+
+const addToCentro = (totals: CentroTotals, centro: string, cantidad: number, valor: number) => {
+  const total = totals.get(centro) ?? { cantidad: 0, valor: 0 };
+  total.cantidad += cantidad;
+  total.valor += valor;
+  totals.set(centro, total);
+};
+
+/** Rows processed between two progress reports. */
+const PROGRESS_INTERVAL = 5000;
+/** Share of the work spent reading rows; compiling the reports takes the rest. */
+const ROW_PROCESSING_SHARE = 0.9;
+
+const CHART_COLORS = ['hsl(var(--chart-1))', 'hsl(var(--chart-2))', 'hsl(var(--chart-3))', 'hsl(var(--chart-4))', 'hsl(var(--chart-5))'];
+
+
+const normalizeLocation = (value: unknown): string => String(value || '').trim().toUpperCase();
+
+const toIsoDate = (year: number, month: number, day: number): string =>
+  `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+/**
+ * Brings expiry dates to `YYYY-MM-DD` so SAP and WMS values can be compared.
+ * Spreadsheet date cells arrive as `Date`; day-first text (`31.12.2025`,
+ * `31/12/25`) follows the SAP convention. Text that is not a valid day-first
+ * date (e.g. the US `12/31/25`) is compared as trimmed text.
+ */
+const normalizeDate = (value: unknown): string => {
+  if (value instanceof Date) return isNaN(value.getTime()) ? '' : toIsoDate(value.getFullYear(), value.getMonth() + 1, value.getDate());
+  const text = String(value ?? '').trim();
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  const dayFirst = text.match(/^(\d{1,2})[./-](\d{1,2})[./-](\d{2}|\d{4})$/);
+  if (dayFirst) {
+    const [day, month] = [Number(dayFirst[1]), Number(dayFirst[2])];
+    const year = Number(dayFirst[3].length === 2 ? `20${dayFirst[3]}` : dayFirst[3]);
+    const date = new Date(year, month - 1, day);
+    if (date.getMonth() !== month - 1 || date.getDate() !== day) return text;
+    return toIsoDate(year, month, day);
+  }
+  return text;
+};
+
+const lotStatus = (lot: LotEntry): LotStatus => {
+  if (!lot.inWms) return 'Solo SAP';
+  if (!lot.inSap) return 'Solo WMS';
+  if (lot.sapExpiry && lot.wmsExpiry && lot.sapExpiry !== lot.wmsExpiry) return 'Vencimiento distinto';
+  if (lot.wmsQty !== lot.sapQty) return 'Diferencia de cantidad';
+  return 'OK';
+};
+
+/**
+ * Excel row number of a row produced by `sheet_to_json`, which records the
+ * zero-based sheet row in the non-enumerable `__rowNum__`. Rows built by other
+ * means are assumed to start right below a header on the first line.
+ */
+const rowNumber = (row: SpreadsheetRow, index: number): number =>
+  typeof row.__rowNum__ === 'number' ? row.__rowNum__ + 1 : index + 2;
+
+const stripLeadingZeros = (sku: string): string => sku.replace(/^0+(?=\d)/, '');
+
+const resolveColumns = (rows: SpreadsheetRow[], kind: FileKind, mapping?: ColumnMapping): ColumnMapping =>
+  mapping ?? detectColumnMapping(getHeaders(rows), kind).mapping;
+
+const assertRequiredColumns = (mapping: ColumnMapping, kind: FileKind) => {
+  const missing = missingColumnRoles(mapping, kind);
+  if (missing.length > 0) {
+    const labels = missing.map(role => COLUMN_ROLES[role].label).join(', ');
+    throw new Error(`Columnas requeridas no encontradas en archivo ${FILE_LABELS[kind]}: ${labels}.`);
+  }
+};
+
+/**
+ * Returns the distinct storage locations found in the given extracts, sorted,
+ * so the UI can offer them before running the reconciliation. Each source is
+ * read through its almacén column, detected when not given.
+ */
+export function listStorageLocations(...sources: Array<{ rows: SpreadsheetRow[]; kind: FileKind; mapping?: ColumnMapping }>): string[] {
+  const locations = new Set<string>();
+  sources.forEach(({ rows, kind, mapping }) => {
+    const header = resolveColumns(rows, kind, mapping).almacen;
+    if (!header) return;
+    rows.forEach(row => {
+      const location = normalizeLocation(row[header]);
+      if (location) locations.add(location);
+    });
+  });
+  return Array.from(locations).sort();
+}
+
+/**
+ * Merges the SAP stock, WMS stock and (optional) SAP adjustments extracts into
+ * one analysis line per (Centro, Almacén, SKU) plus the per-centro summaries.
+ * Rows are the objects produced by `XLSX.utils.sheet_to_json`; the function
+ * performs no I/O.
+ */
+export function reconcile(
+  sapRows: SpreadsheetRow[],
+  wmsRows: SpreadsheetRow[],
+  adjustmentRows: SpreadsheetRow[] = [],
+  options: ReconcileOptions = {}
+): AnalysisResult {
+  const {
+    onProgress,
+    lotLevel = false,
+    movementRules = DEFAULT_MOVEMENT_RULES,
+    skuNormalization = DEFAULT_SKU_NORMALIZATION,
+    transferRule = DEFAULT_TRANSFER_RULE,
+  } = options;
+  const isTransferStock = buildTransferMatcher(transferRule);
+  const movementRuleMap = buildMovementRuleMap(movementRules);
+  const [categoryError] = customCategoryErrors(movementRules).values();
+  if (categoryError) throw new Error(categoryError);
+
+  const totalRows = Math.max(sapRows.length + wmsRows.length + adjustmentRows.length, 1);
+  let processedRows = 0;
+  let stage = '';
+  const startStage = (message: string) => {
+    stage = message;
+    onProgress?.(message, (processedRows / totalRows) * ROW_PROCESSING_SHARE);
+  };
+  const countRow = () => {
+    processedRows++;
+    if (processedRows % PROGRESS_INTERVAL === 0) onProgress?.(stage, (processedRows / totalRows) * ROW_PROCESSING_SHARE);
+  };
+
+  const dataQualityReport: DataQualityIssue[] = [];
+  const reportIssue = (kind: FileKind, fila: number | '', tipo: DataQualityIssue['Tipo'], motivo: string, sku = '') => {
+    dataQualityReport.push({ 'Archivo': FILE_LABELS[kind], 'Fila': fila, 'Tipo': tipo, 'SKU': sku, 'Motivo': motivo });
+  };
+
+  const numberFormats: AnalysisResult['numberFormats'] = {};
+  const unparseableQuantities: AnalysisResult['unparseableQuantities'] = {};
+  const quantityReader = (kind: FileKind, rows: SpreadsheetRow[], qtyHeader: string) => {
+    const requested = options.numberFormats?.[kind] ?? 'auto';
+    const { format, ambiguous } = requested === 'auto'
+      ? inspectNumberFormat(rows.map(row => row[qtyHeader]), options.decimalCommaHints?.[kind])
+      : { format: requested, ambiguous: false };
+    if (ambiguous) {
+      reportIssue(kind, '', 'Advertencia', `Formato numérico ambiguo: las cantidades (p. ej. "1.200") se leen igual con separador de miles o decimal. Se interpretaron como ${NUMBER_FORMAT_LABELS[format]}; elige el formato numérico del archivo si no es correcto.`);
+    }
+    numberFormats[kind] = format;
+    unparseableQuantities[kind] = 0;
+    return (value: unknown): number => {
+      const qty = parseQuantity(value, format);
+      if (isNaN(qty)) unparseableQuantities[kind]!++;
+      return qty;
+    };
+  };
+
+  // Rows repeating an earlier row's line (Centro, Almacén, SKU) with the same
+  // lot, bin or movement type and quantity are usually an export or
+  // copy-paste mistake that doubles the stock; they are still counted, but
+  // flagged. Only that short key is kept per row, not the whole row.
+  const duplicateChecker = (kind: FileKind) => {
+    const firstRows = new Map<string, number>();
+    return (fila: number, sku: string, fields: unknown[]) => {
+      const key = fields.join('|');
+      const first = firstRows.get(key);
+      if (first === undefined) firstRows.set(key, fila);
+      else reportIssue(kind, fila, 'Advertencia', `Fila duplicada (igual a la fila ${first}).`, sku);
+    };
+  };
+  const skipInvalidRow = (kind: FileKind, row: SpreadsheetRow, fila: number, sku: string, qty: number, qtyHeader: string): boolean => {
+    if (!sku) {
+      reportIssue(kind, fila, 'Fila omitida', 'SKU vacío.');
+      return true;
+    }
+    if (isNaN(qty)) {
+      reportIssue(kind, fila, 'Fila omitida', `Cantidad no numérica: "${row[qtyHeader]}".`, sku);
+      return true;
+    }
+    return false;
+  };
+
+  // Quantities are compared in the material's SAP base unit: the unit of its
+  // SAP rows, else the base unit of the conversion table, else as read.
+  const unitConverter = buildUnitConverter(options.unitConversions ?? [], skuNormalization);
+  const sapBaseUnits = new Map<string, string>();
+  const missingConversions = new Set<string>();
+  const toCommonUnit = (kind: FileKind, fila: number, sku: string, qty: number, unit: string): { qty: number; unit: string } => {
+    const target = sapBaseUnits.get(sku) ?? unitConverter.baseUnitOf(sku) ?? unit;
+    if (!unit || !target) return { qty, unit: unit || target };
+    const factor = unitConverter.factor(sku, unit, target);
+    if (factor !== undefined) return { qty: qty * factor, unit: target };
+    const key = `${kind}|${sku}|${unit}`;
+    if (!missingConversions.has(key)) {
+      missingConversions.add(key);
+      reportIssue(kind, fila, 'Advertencia', `Sin conversión de ${unit} a ${target}; la cantidad se compara sin convertir.`, sku);
+    }
+    return { qty, unit };
+  };
+
+  const storageLocations = (options.storageLocations ?? DEFAULT_STORAGE_LOCATIONS).map(normalizeLocation);
+  if (storageLocations.length === 0) throw new Error('Selecciona al menos un almacén para conciliar.');
+  const isSelectedLocation = (location: string) => storageLocations.includes(location);
+
+  // Entries are keyed by (Centro, Almacén, SKU). The lookup maps remember where
+  // SAP holds each material so WMS and adjustment rows that lack a plant or
+  // storage location column can still be attributed to a line.
+  const dataMap = new Map<string, StockEntry>();
+  const skuToAlmacenMap = new Map<string, string>();
+  const centrosBySku = new Map<string, Set<string>>();
+  const centrosBySkuAlmacen = new Map<string, Set<string>>();
+  // First row of each SKU in either file, for the leading-zero check.
+  const sapSkuRows = new Map<string, number>();
+  const wmsSkuRows = new Map<string, number>();
+  const lotMap = new Map<string, LotEntry>();
+  const mermaByCentro: CentroTotals = new Map();
+  const vencimientoByCentro: CentroTotals = new Map();
+  const customByCategory = new Map<string, CentroTotals>();
+  const movementSkus = new Map<string, Set<string>>();
+  movementRules.forEach(rule => {
+    if (rule.category === 'personalizada') customByCategory.set(movementCategoryName(rule), new Map());
+  });
+
+  const ensureEntry = (centro: string, almacen: string, sku: string): StockEntry => {
+    const key = `${centro}|${almacen}|${sku}`;
+    let entry = dataMap.get(key);
+    if (!entry) {
+      entry = {
+        sku,
+        sapQty: 0,
+        wmsQty: 0,
+        adjustment: 0,
+        stockParaTraslado: 0,
+        centro,
+        nombreProd: '',
+        descAlmacen: almacen,
+        grupo: '',
+        inSap: false,
+        inWms: false,
+        unit: '',
+        sapOriginal: new Map(),
+        wmsOriginal: new Map(),
+      };
+      dataMap.set(key, entry);
+      if (!skuToAlmacenMap.has(sku)) skuToAlmacenMap.set(sku, almacen);
+      addCentro(centrosBySku, sku, centro);
+      addCentro(centrosBySkuAlmacen, `${almacen}|${sku}`, centro);
+    }
+    return entry;
+  };
+
+  const ensureLot = (centro: string, almacen: string, sku: string, lote: string): LotEntry => {
+    const key = `${centro}|${almacen}|${sku}|${lote}`;
+    let lot = lotMap.get(key);
+    if (!lot) {
+      lot = { centro, almacen, sku, lote, sapQty: 0, wmsQty: 0, inSap: false, inWms: false, sapExpiry: '', wmsExpiry: '' };
+      lotMap.set(key, lot);
+    }
+    return lot;
+  };
+
+  // A row without a plant goes to the plant holding the material in its
+  // storage location (else anywhere). When several plants hold it there is no
+  // safe choice: the row is left out and reported once per material.
+  const unattributedRows = new Map<string, { kind: FileKind; fila: number; sku: string; centros: string[]; rows: number }>();
+  const resolveCentro = (
+    kind: FileKind,
+    row: SpreadsheetRow,
+    fila: number,
+    centroHeader: string | undefined,
+    almacen: string,
+    sku: string
+  ): string | undefined => {
+    const centro = centroHeader ? String(row[centroHeader] || '').trim() : '';
+    if (centro) return centro;
+    const candidates = centrosBySkuAlmacen.get(`${almacen}|${sku}`) ?? centrosBySku.get(sku);
+    if (!candidates) return 'INDEFINIDO';
+    const [only, ...others] = candidates;
+    if (others.length === 0) return only;
+    const key = `${kind}|${almacen}|${sku}`;
+    const unattributed = unattributedRows.get(key) ?? { kind, fila, sku, centros: Array.from(candidates), rows: 0 };
+    unattributed.rows++;
+    unattributedRows.set(key, unattributed);
+    return undefined;
+  };
+
+  // --- Process SAP Data ---
+  startStage('Procesando datos de SAP...');
+  const firstRowSap = sapRows[0];
+  if (!firstRowSap) throw new Error('El archivo SAP está vacío o no tiene encabezados.');
+
+  const sapColumns = resolveColumns(sapRows, 'sap', options.columnMappings?.sap);
+  assertRequiredColumns(sapColumns, 'sap');
+  const sapSkuHeader = sapColumns.sku!;
+  const sapQtyHeader = sapColumns.qty!;
+  const sapCentroHeader = sapColumns.centro!;
+  const sapAreaSapHeader = sapColumns.almacen!;
+  const sapDescHeader = sapColumns.descripcion;
+  const sapLoteHeader = sapColumns.lote;
+  const sapVencimientoHeader = sapColumns.vencimiento;
+  const sapUnitHeader = sapColumns.unidad;
+  const sapGrupoHeader = sapColumns.grupo;
+  const sapValorHeader = sapColumns.valor;
+  if (lotLevel && !sapLoteHeader) {
+    throw new Error('La conciliación por lote requiere una columna de Lote en el archivo SAP.');
+  }
+
+  const parseSapQty = quantityReader('sap', sapRows, sapQtyHeader);
+
+  // Unit prices come from the price list, else from the SAP stock value
+  // divided by the stock of the material across the selected locations.
+  const priceMap = buildPriceMap(options.prices ?? [], skuNormalization);
+  const sapValues = new Map<string, { qty: number; value: number }>();
+  const sapValueFormat = sapValorHeader ? detectNumberFormat(sapRows.map(row => row[sapValorHeader]), options.decimalCommaHints?.sap) : 'en';
+  const unitPriceOf = (sku: string): number | undefined => {
+    const listed = priceMap.get(sku);
+    if (listed !== undefined) return listed;
+    const sapValue = sapValues.get(sku);
+    return sapValue && sapValue.qty !== 0 ? sapValue.value / sapValue.qty : undefined;
+  };
+  const hasValuation = priceMap.size > 0 || Boolean(sapValorHeader);
+  const checkSapDuplicate = duplicateChecker('sap');
+  sapRows.forEach((row, index) => {
+    countRow();
+    const areaSap = normalizeLocation(row[sapAreaSapHeader]);
+    if (!isSelectedLocation(areaSap)) return;
+
+    const fila = rowNumber(row, index);
+    const sku = normalizeSku(row[sapSkuHeader], skuNormalization);
+    const sapQty = parseSapQty(row[sapQtyHeader]);
+    if (skipInvalidRow('sap', row, fila, sku, sapQty, sapQtyHeader)) return;
+
+    const centro = String(row[sapCentroHeader] || '').trim() || 'INDEFINIDO';
+    const lote = sapLoteHeader ? String(row[sapLoteHeader] || '').trim() : '';
+    checkSapDuplicate(fila, sku, [centro, areaSap, sku, lote, sapQty]);
+    if (sapQty < 0) reportIssue('sap', fila, 'Advertencia', `Stock negativo (${sapQty}).`, sku);
+    if (!sapSkuRows.has(sku)) sapSkuRows.set(sku, fila);
+
+    const sapUnit = sapUnitHeader ? normalizeUnit(row[sapUnitHeader]) : '';
+    if (sapUnit && !sapBaseUnits.has(sku)) sapBaseUnits.set(sku, sapUnit);
+    const { qty, unit } = toCommonUnit('sap', fila, sku, sapQty, sapUnit);
+
+    const entry = ensureEntry(centro, areaSap, sku);
+    entry.sapQty += qty;
+    entry.inSap = true;
+    if (sapValorHeader) {
+      const value = parseQuantity(row[sapValorHeader], sapValueFormat);
+      if (!isNaN(value)) {
+        const sapValue = sapValues.get(sku) ?? { qty: 0, value: 0 };
+        sapValue.qty += qty;
+        sapValue.value += value;
+        sapValues.set(sku, sapValue);
+      }
+    }
+    if (!entry.grupo && sapGrupoHeader) entry.grupo = String(row[sapGrupoHeader] || '').trim();
+    if (!entry.unit) entry.unit = unit;
+    if (sapUnitHeader) addOriginal(entry.sapOriginal, sapUnit, sapQty);
+    if (!entry.nombreProd && sapDescHeader) entry.nombreProd = String(row[sapDescHeader] ?? '');
+
+    if (lotLevel) {
+      const lot = ensureLot(centro, areaSap, sku, lote);
+      lot.sapQty += qty;
+      lot.inSap = true;
+      if (!lot.sapExpiry && sapVencimientoHeader) lot.sapExpiry = normalizeDate(row[sapVencimientoHeader]);
+    }
+  });
+
+  // --- Process WMS Data ---
+  startStage('Procesando datos de WMS...');
+  const firstRowWms = wmsRows[0];
+  if (!firstRowWms) throw new Error('El archivo WMS está vacío o no tiene encabezados.');
+
+  const wmsColumns = resolveColumns(wmsRows, 'wms', options.columnMappings?.wms);
+  assertRequiredColumns(wmsColumns, 'wms');
+  const wmsSkuHeader = wmsColumns.sku!;
+  const wmsQtyHeader = wmsColumns.qty!;
+  const wmsAreaHeader = wmsColumns.area!;
+  const wmsAreaSapHeader = wmsColumns.almacen!;
+  const wmsUbicacionHeader = wmsColumns.ubicacion!;
+  const wmsCentroHeader = wmsColumns.centro;
+  const wmsLoteHeader = wmsColumns.lote;
+  const wmsVencimientoHeader = wmsColumns.vencimiento;
+  const wmsUnitHeader = wmsColumns.unidad;
+  if (lotLevel && !wmsLoteHeader) {
+    throw new Error('La conciliación por lote requiere una columna de Lote en el archivo WMS.');
+  }
+
+  const crossReference = buildCrossReferenceMap(options.skuCrossReference ?? [], skuNormalization);
+  const knownSapSkus = new Set(sapRows.map(row => normalizeSku(row[sapSkuHeader], skuNormalization)));
+  const unmappedWms = new Map<string, UnmappedWmsRow>();
+
+  const parseWmsQty = quantityReader('wms', wmsRows, wmsQtyHeader);
+  const checkWmsDuplicate = duplicateChecker('wms');
+  wmsRows.forEach((row, index) => {
+    countRow();
+    const areaSap = normalizeLocation(row[wmsAreaSapHeader]);
+    const isStaged = isTransferStock(String(row[wmsAreaHeader] || ''), String(row[wmsUbicacionHeader] || ''));
+    if (!isSelectedLocation(areaSap) && !isStaged) return;
+
+    const fila = rowNumber(row, index);
+    const wmsSku = normalizeSku(row[wmsSkuHeader], skuNormalization);
+    const wmsQty = parseWmsQty(row[wmsQtyHeader]);
+    if (skipInvalidRow('wms', row, fila, wmsSku, wmsQty, wmsQtyHeader)) return;
+
+    const mapped = crossReference.get(wmsSku);
+    if (!mapped && crossReference.size > 0 && !knownSapSkus.has(wmsSku)) {
+      const key = `${areaSap}|${wmsSku}`;
+      const unmapped = unmappedWms.get(key) ?? { 'Descripción (Almacén)': areaSap, 'SKU WMS': wmsSku, 'Cantidad': 0, 'Filas': 0 };
+      unmapped['Cantidad'] += wmsQty;
+      unmapped['Filas']++;
+      unmappedWms.set(key, unmapped);
+      return;
+    }
+    const sku = mapped ? mapped.sapSku : wmsSku;
+
+    const centroCell = wmsCentroHeader ? String(row[wmsCentroHeader] || '').trim() : '';
+    const lote = wmsLoteHeader ? String(row[wmsLoteHeader] || '').trim() : '';
+    checkWmsDuplicate(fila, sku, [centroCell, areaSap, sku, lote, String(row[wmsUbicacionHeader] || '').trim(), wmsQty]);
+    if (wmsQty < 0) reportIssue('wms', fila, 'Advertencia', `Stock negativo (${wmsQty}).`, sku);
+    if (!wmsSkuRows.has(sku)) wmsSkuRows.set(sku, fila);
+
+    // The cross-reference factor already converts to SAP units, so the unit
+    // column is only used to convert quantities of unmapped items.
+    const wmsUnit = wmsUnitHeader ? normalizeUnit(row[wmsUnitHeader]) : '';
+    const { qty, unit } = mapped
+      ? { qty: wmsQty * mapped.factor, unit: sapBaseUnits.get(sku) ?? unitConverter.baseUnitOf(sku) ?? wmsUnit }
+      : toCommonUnit('wms', fila, sku, wmsQty, wmsUnit);
+
+    // Staged transfer stock is reported even when its AREA SAP is outside the
+    // selection; it is then attributed to the SKU's first selected location.
+    const almacen = isSelectedLocation(areaSap) ? areaSap : skuToAlmacenMap.get(sku) || storageLocations[0];
+    const centro = resolveCentro('wms', row, fila, wmsCentroHeader, almacen, sku);
+    if (centro === undefined) return;
+
+    if (isSelectedLocation(areaSap)) {
+      const entry = ensureEntry(centro, areaSap, sku);
+      entry.wmsQty += qty;
+      entry.inWms = true;
+      if (!entry.unit) entry.unit = unit;
+      if (wmsUnitHeader) addOriginal(entry.wmsOriginal, wmsUnit, wmsQty);
+
+      if (lotLevel) {
+        const lot = ensureLot(centro, areaSap, sku, lote);
+        lot.wmsQty += qty;
+        lot.inWms = true;
+        if (!lot.wmsExpiry && wmsVencimientoHeader) lot.wmsExpiry = normalizeDate(row[wmsVencimientoHeader]);
+      }
+    }
+
+    if (isStaged) ensureEntry(centro, almacen, sku).stockParaTraslado += qty;
+  });
+
+  // Excel drops the leading zeros of numeric material codes, so the same SKU
+  // can appear as 000123 in one extract and 123 in the other.
+  const sapByStrippedSku = new Map<string, string>();
+  sapSkuRows.forEach((_, sku) => sapByStrippedSku.set(stripLeadingZeros(sku), sku));
+  wmsSkuRows.forEach((wmsFila, wmsSku) => {
+    if (sapSkuRows.has(wmsSku)) return;
+    const sapSku = sapByStrippedSku.get(stripLeadingZeros(wmsSku));
+    if (!sapSku || wmsSkuRows.has(sapSku)) return;
+    const [kind, fila, sku, other] = wmsSku.length < sapSku.length
+      ? ['wms' as const, wmsFila, wmsSku, sapSku]
+      : ['sap' as const, sapSkuRows.get(sapSku)!, sapSku, wmsSku];
+    reportIssue(kind, fila, 'Advertencia', `El SKU coincide con ${other} del otro archivo salvo por los ceros a la izquierda; probablemente se perdieron al exportar. Revisa la normalización de SKU.`, sku);
+  });
+
+  // --- Process Adjustments Data ---
+  const firstRowAdj = adjustmentRows[0];
+  if (firstRowAdj) {
+    startStage('Procesando datos de Ajustes...');
+    const adjColumns = resolveColumns(adjustmentRows, 'adjustments', options.columnMappings?.adjustments);
+    const adjSkuHeader = adjColumns.sku;
+    const adjQtyHeader = adjColumns.qty;
+    const adjClaseMovHeader = adjColumns.claseMov;
+    const adjAlmacenHeader = adjColumns.almacen;
+    const adjCentroHeader = adjColumns.centro;
+    const adjUnitHeader = adjColumns.unidad;
+
+    if (adjSkuHeader && adjQtyHeader && adjClaseMovHeader) {
+      const parseAdjQty = quantityReader('adjustments', adjustmentRows, adjQtyHeader);
+      const checkAdjDuplicate = duplicateChecker('adjustments');
+      // Extracts often carry every movement type; unruled ones are reported
+      // once per type instead of once per row.
+      const unruledMovements = new Map<string, { fila: number; rows: number }>();
+      adjustmentRows.forEach((row, index) => {
+        countRow();
+        const sku = normalizeSku(row[adjSkuHeader], skuNormalization);
+        const claseMov = normalizeClaseMov(row[adjClaseMovHeader]);
+        const almacen = adjAlmacenHeader
+          ? normalizeLocation(row[adjAlmacenHeader])
+          : skuToAlmacenMap.get(sku) || storageLocations[0];
+        if (adjAlmacenHeader && !isSelectedLocation(almacen)) return;
+
+        const fila = rowNumber(row, index);
+        const adjQty = parseAdjQty(row[adjQtyHeader]);
+        if (skipInvalidRow('adjustments', row, fila, sku, adjQty, adjQtyHeader)) return;
+        const rule = movementRuleMap.get(claseMov);
+        if (!rule) {
+          const unruled = unruledMovements.get(claseMov) ?? { fila, rows: 0 };
+          unruled.rows++;
+          unruledMovements.set(claseMov, unruled);
+          return;
+        }
+        const centroCell = adjCentroHeader ? String(row[adjCentroHeader] || '').trim() : '';
+        checkAdjDuplicate(fila, sku, [centroCell, almacen, sku, claseMov, adjQty]);
+        if (rule.category !== 'ignorar') {
+          const centro = resolveCentro('adjustments', row, fila, adjCentroHeader, almacen, sku);
+          if (centro === undefined) return;
+          const adjUnit = adjUnitHeader ? normalizeUnit(row[adjUnitHeader]) : '';
+          const signedQty = toCommonUnit('adjustments', fila, sku, adjQty, adjUnit).qty * rule.sign;
+          const category = movementCategoryName(rule);
+          movementSkus.set(category, (movementSkus.get(category) ?? new Set()).add(sku));
+          if (rule.category === 'inventario') {
+            ensureEntry(centro, almacen, sku).adjustment += signedQty;
+          } else {
+            const byCentro = rule.category === 'merma'
+              ? mermaByCentro
+              : rule.category === 'vencimiento'
+                ? vencimientoByCentro
+                : customByCategory.get(category)!;
+            addToCentro(byCentro, centro, signedQty, signedQty * (unitPriceOf(sku) ?? 0));
+          }
+        }
+      });
+      unruledMovements.forEach(({ fila, rows }, claseMov) => {
+        const motivo = claseMov
+          ? `Clase de movimiento "${claseMov}" sin regla`
+          : 'Sin clase de movimiento';
+        reportIssue('adjustments', fila, 'Fila omitida', `${motivo}: ${rows} fila(s) omitida(s) desde esta.`);
+      });
+    } else {
+      const missing = missingColumnRoles(adjColumns, 'adjustments').map(role => COLUMN_ROLES[role].label).join(', ');
+      reportIssue('adjustments', '', 'Fila omitida', `Archivo omitido por completo; faltan columnas: ${missing}.`);
+    }
+  }
+
+  unattributedRows.forEach(({ kind, fila, sku, centros, rows }) => {
+    reportIssue(kind, fila, 'Fila omitida', `Sin columna de Centro y el material está en varios centros (${centros.join(', ')}): ${rows} fila(s) omitida(s) desde esta. Asigna la columna Centro.`, sku);
+  });
+
+  // --- Final Report Generation ---
+  onProgress?.('Compilando reporte final...', ROW_PROCESSING_SHARE);
+  const showUnits = Boolean(sapUnitHeader || wmsUnitHeader);
+  const toleranceRules = options.toleranceRules ?? [];
+  const valueOf = (qty: number, price: number | undefined): number | '' =>
+    price === undefined ? '' : roundAmount(qty * price);
+  const analysisReport: AnalysisReportRow[] = Array.from(dataMap.values()).map(entry => ({
+    'Centro': entry.centro,
+    'Descripción (Almacén)': entry.descAlmacen,
+    'SKU': entry.sku,
+    'Nombre Prod': entry.nombreProd,
+    'Stock SAP': entry.sapQty,
+    'Stock WMS': entry.wmsQty,
+    'Diferencia': entry.wmsQty - entry.sapQty,
+    'Estado': classifyDifference({
+      inSap: entry.inSap,
+      inWms: entry.inWms,
+      difference: entry.wmsQty - entry.sapQty,
+      sapQty: entry.sapQty,
+      rule: findToleranceRule(toleranceRules, entry.centro, entry.grupo),
+      unitPrice: unitPriceOf(entry.sku),
+      transitQty: entry.stockParaTraslado,
+      transferExplains: transferRule.explainsDifference,
+    }),
+    'Ajuste Mensual (Dif. Inventario)': entry.adjustment,
+    'Diferencia Residual': entry.wmsQty - entry.sapQty - entry.adjustment,
+    'Stock para Traslado': entry.stockParaTraslado,
+    ...(hasValuation && {
+      'Valor SAP': valueOf(entry.sapQty, unitPriceOf(entry.sku)),
+      'Valor WMS': valueOf(entry.wmsQty, unitPriceOf(entry.sku)),
+      'Valor Diferencia': valueOf(entry.wmsQty - entry.sapQty, unitPriceOf(entry.sku)),
+      'Valor Residual': valueOf(entry.wmsQty - entry.sapQty - entry.adjustment, unitPriceOf(entry.sku)),
+    }),
+    ...(showUnits && {
+      'UM': entry.unit,
+      'Stock SAP (original)': formatOriginal(entry.sapOriginal),
+      'Stock WMS (original)': formatOriginal(entry.wmsOriginal),
+    }),
+  })).filter(entry => entry['Stock SAP'] !== 0 || entry['Stock WMS'] !== 0 || entry['Ajuste Mensual (Dif. Inventario)'] !== 0);
+
+  const statusSummary = DIFFERENCE_STATUSES.map(estado => ({
+    'Estado': estado,
+    'Cantidad de Líneas': analysisReport.filter(item => item['Estado'] === estado).length,
+  }));
+
+  const lotReport: LotReportRow[] | undefined = lotLevel
+    ? Array.from(lotMap.values()).map(lot => ({
+      'Centro': lot.centro,
+      'Descripción (Almacén)': lot.almacen,
+      'SKU': lot.sku,
+      'Lote': lot.lote,
+      'Stock SAP': lot.sapQty,
+      'Stock WMS': lot.wmsQty,
+      'Diferencia': lot.wmsQty - lot.sapQty,
+      'Vencimiento SAP': lot.sapExpiry,
+      'Vencimiento WMS': lot.wmsExpiry,
+      'Estado': lotStatus(lot),
+    }))
+    : undefined;
+
+  const toCentroRows = (totals: CentroTotals): CentroQuantityRow[] =>
+    Array.from(totals.entries()).map(([centro, { cantidad, valor }]) => ({
+      'Centro': centro,
+      'Suma de Cantidad': cantidad,
+      ...(hasValuation && { 'Valor': roundAmount(valor) }),
+    }));
+  const mermaReport = toCentroRows(mermaByCentro);
+  const vencimientoReport = toCentroRows(vencimientoByCentro);
+  const customMovementReports = Array.from(customByCategory.entries()).map(([category, byCentro]) => ({
+    category,
+    rows: toCentroRows(byCentro),
+  }));
+
+  const summaryByCentro = new Map<string, CentroDifferenceRow>();
+  analysisReport.forEach(item => {
+    const centro = item['Centro'] || 'INDEFINIDO';
+    const summary = summaryByCentro.get(centro) ?? {
+      'Centro': centro,
+      'Diferencia': 0,
+      'Ajuste Mensual (Dif. Inventario)': 0,
+      'Diferencia Residual': 0,
+      ...(hasValuation && { 'Valor Diferencia': 0, 'Valor Residual': 0 }),
+    };
+    summary['Diferencia'] += item['Diferencia'];
+    summary['Ajuste Mensual (Dif. Inventario)'] += item['Ajuste Mensual (Dif. Inventario)'];
+    summary['Diferencia Residual'] += item['Diferencia Residual'];
+    if (hasValuation) {
+      summary['Valor Diferencia'] = roundAmount(summary['Valor Diferencia']! + Number(item['Valor Diferencia'] || 0));
+      summary['Valor Residual'] = roundAmount(summary['Valor Residual']! + Number(item['Valor Residual'] || 0));
+    }
+    summaryByCentro.set(centro, summary);
+  });
+
+  const summaryChartData = Array.from(summaryByCentro.values()).map((summary, index) => ({ name: summary.Centro, value: Math.abs(summary.Diferencia), fill: CHART_COLORS[index % CHART_COLORS.length] })).filter(item => item.value > 0);
+  const diferenciaReport = Array.from(summaryByCentro.values())
+    .filter(item => item['Diferencia'] !== 0 || item['Ajuste Mensual (Dif. Inventario)'] !== 0);
+  const currency = hasValuation ? options.prices?.find(price => price.currency)?.currency ?? '' : '';
+
+  return {
+    analysisReport,
+    lotReport,
+    mermaReport,
+    vencimientoReport,
+    customMovementReports,
+    numberFormats,
+    unparseableQuantities,
+    dataQualityReport,
+    unmappedWmsReport: Array.from(unmappedWms.values()),
+    statusSummary,
+    accuracyReport: computeInventoryAccuracy(analysisReport),
+    summaryChartData,
+    movementSkus: Object.fromEntries(Array.from(movementSkus.entries(), ([category, skus]) => [category, Array.from(skus)])),
+    diferenciaReport,
+    currency,
+  };
+}
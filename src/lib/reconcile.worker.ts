@@ -0,0 +1,217 @@
+import * as XLSX from 'xlsx';
+import { buildAnalysisWorkbook, buildRowsWorkbook, type AnalysisRunInfo, type AnalysisRunOptions } from '@/lib/analysis-workbook';
+import {
+  FILE_KINDS,
+  FILE_LABELS,
+  detectColumnMapping,
+  getHeaders,
+  type ColumnDetection,
+  type ColumnMapping,
+  type FileKind,
+} from '@/lib/column-headers';
+import { inspectNumberFormat, type NumberFormatDetection } from '@/lib/number-parser';
+import { parsePriceListRows, type MaterialPrice } from '@/lib/price-list';
+import { listStorageLocations, reconcile, type AnalysisResult, type SpreadsheetRow } from '@/lib/reconcile';
+import {
+  detectDataSheet,
+  isDecimalCommaExport,
+  readFirstSheetRows,
+  readSheetRows,
+  readWorkbook,
+  summarizeSheets,
+  SUPPORTED_FILE_EXTENSIONS,
+  type SheetSummary,
+} from '@/lib/spreadsheet-reader';
+
+/*
+ * Reads the uploaded files and runs the reconciliation off the main thread so
+ * the page stays responsive on extracts of hundreds of thousands of rows.
+ * Rows stay in the worker between jobs (and keep SheetJS's `__rowNum__`,
+ * which does not survive `postMessage`); the page only receives previews and
+ * results. Jobs run one at a time in the order they are posted.
+ */
+
+export type SheetPreview = {
+  sheets: SheetSummary[];
+  selectedSheets: string[];
+  headers: string[];
+  detection: ColumnDetection;
+};
+
+export type FileInspection = {
+  /** Storage locations found in the SAP and WMS rows. */
+  storageLocations: string[];
+  /** Number format detected in the quantity column of each loaded file. */
+  numberFormats: Partial<Record<FileKind, NumberFormatDetection>>;
+};
+
+export type ReconcileJob = {
+  priceFile?: File;
+  options: AnalysisRunOptions;
+};
+
+export type ReconcileOutput = {
+  result: AnalysisResult;
+  /** The `analisis_stock.xlsx` file. */
+  workbook: ArrayBuffer;
+};
+
+export type PreviewRequest = { type: 'preview'; kind: FileKind; file: File; sheetNames?: string[]; headerRow?: number };
+
+export type WorkerRequest =
+  | PreviewRequest
+  | { type: 'clear'; kind: FileKind }
+  | { type: 'inspect'; mappings: Partial<Record<FileKind, ColumnMapping>> }
+  | ({ type: 'reconcile' } & ReconcileJob)
+  | { type: 'export'; rows: object[]; sheetName: string };
+
+export type WorkerResponse =
+  | { jobId: number; type: 'progress'; message: string; percent: number }
+  | { jobId: number; type: 'done'; value: unknown }
+  | { jobId: number; type: 'error'; message: string };
+
+type LoadedFile = {
+  file: File;
+  workbook: XLSX.WorkBook;
+  sheetNames?: string[];
+  rows?: SpreadsheetRow[];
+};
+
+const loadedFiles: Partial<Record<FileKind, LoadedFile>> = {};
+
+// A File posted twice arrives as two objects; compare what identifies it instead.
+const isSameFile = (a: File, b: File) => a.name === b.name && a.size === b.size && a.lastModified === b.lastModified;
+
+const readFile = async (file: File, fileName: string): Promise<XLSX.WorkBook> => {
+  try {
+    return readWorkbook(await file.arrayBuffer(), file.name);
+  } catch (error: any) {
+    console.error(`Error reading ${fileName} file`, error);
+    throw new Error(`No se pudo leer el archivo ${fileName}. Formatos admitidos: ${SUPPORTED_FILE_EXTENSIONS.join(', ')}. Detalle: ${error.message}`);
+  }
+};
+
+/**
+ * Reads `file` (from the given sheets, or the detected data sheet, with the
+ * given or detected header row) and keeps its rows for the next jobs. A new
+ * file that cannot be read drops the previous one; a sheet or header-row
+ * choice that cannot be read keeps it.
+ */
+const preview = async ({ kind, file, sheetNames, headerRow }: PreviewRequest): Promise<SheetPreview> => {
+  const fileName = FILE_LABELS[kind];
+  const current = loadedFiles[kind];
+  const isNewFile = !current || !isSameFile(current.file, file);
+  try {
+    const workbook = isNewFile ? await readFile(file, fileName) : current.workbook;
+    const sheets = summarizeSheets(workbook, kind, headerRow);
+    const dataSheet = detectDataSheet(sheets);
+    const selectedSheets = sheetNames ?? (dataSheet ? [dataSheet] : []);
+    let rows: SpreadsheetRow[];
+    try {
+      rows = readSheetRows(workbook, sheets, selectedSheets);
+    } catch (error: any) {
+      throw new Error(`No se pudo leer el archivo ${fileName}. Detalle: ${error.message}`);
+    }
+    loadedFiles[kind] = { file, workbook, sheetNames: selectedSheets, rows };
+    const headers = getHeaders(rows);
+    return { sheets, selectedSheets, headers, detection: detectColumnMapping(headers, kind) };
+  } catch (error) {
+    if (!sheetNames && headerRow === undefined) delete loadedFiles[kind];
+    throw error;
+  }
+};
+
+const inspect = (mappings: Partial<Record<FileKind, ColumnMapping>>): FileInspection => {
+  const numberFormats: FileInspection['numberFormats'] = {};
+  (Object.keys(loadedFiles) as FileKind[]).forEach(kind => {
+    const loaded = loadedFiles[kind];
+    const qtyHeader = mappings[kind]?.qty;
+    if (loaded?.rows && qtyHeader) {
+      numberFormats[kind] = inspectNumberFormat(loaded.rows.map(row => row[qtyHeader]), isDecimalCommaExport(loaded.workbook));
+    }
+  });
+  const storageLocations = listStorageLocations(
+    ...(['sap', 'wms'] as const)
+      .filter(kind => loadedFiles[kind]?.rows)
+      .map(kind => ({ rows: loadedFiles[kind]!.rows!, kind, mapping: mappings[kind] }))
+  );
+  return { storageLocations, numberFormats };
+};
+
+const rowsOf = (kind: FileKind): SpreadsheetRow[] => {
+  const rows = loadedFiles[kind]?.rows;
+  if (!rows) throw new Error(`El archivo ${FILE_LABELS[kind]} no está cargado.`);
+  return rows;
+};
+
+const decimalCommaHints = (): Partial<Record<FileKind, boolean>> =>
+  Object.fromEntries(FILE_KINDS.filter(kind => loadedFiles[kind]).map(kind => [kind, isDecimalCommaExport(loadedFiles[kind]!.workbook)]));
+
+const runReconcile = async ({ priceFile, options }: ReconcileJob, report: (message: string, percent: number) => void): Promise<ReconcileOutput> => {
+  const generatedAt = new Date();
+  let prices: MaterialPrice[] = [];
+  if (priceFile) {
+    report('Leyendo lista de precios...', 0);
+    const priceWorkbook = await readFile(priceFile, 'Lista de Precios');
+    prices = parsePriceListRows(readFirstSheetRows(priceWorkbook));
+  }
+
+  // The engine takes 5-90% of the job; writing the workbook takes the rest.
+  const result = reconcile(rowsOf('sap'), rowsOf('wms'), loadedFiles.adjustments?.rows ?? [], {
+    ...options,
+    decimalCommaHints: decimalCommaHints(),
+    prices,
+    onProgress: (message, fraction) => report(message, 5 + fraction * 85),
+  });
+
+  report('Creando archivo Excel para descarga...', 90);
+  const run: AnalysisRunInfo = {
+    generatedAt,
+    files: FILE_KINDS.filter(kind => loadedFiles[kind]).map(kind => {
+      const { file, sheetNames = [], rows = [] } = loadedFiles[kind]!;
+      return { kind, fileName: file.name, sheets: sheetNames, rows: rows.length };
+    }),
+    priceList: priceFile && { fileName: priceFile.name, prices: prices.length },
+    options,
+  };
+  return { result, workbook: buildAnalysisWorkbook(result, run) };
+};
+
+const post = (response: WorkerResponse, transfer: Transferable[] = []) => self.postMessage(response, { transfer });
+
+const handle = async (jobId: number, request: WorkerRequest) => {
+  try {
+    switch (request.type) {
+      case 'preview':
+        post({ jobId, type: 'done', value: await preview(request) });
+        break;
+      case 'clear':
+        delete loadedFiles[request.kind];
+        post({ jobId, type: 'done', value: undefined });
+        break;
+      case 'inspect':
+        post({ jobId, type: 'done', value: inspect(request.mappings) });
+        break;
+      case 'reconcile': {
+        const output = await runReconcile(request, (message, percent) => post({ jobId, type: 'progress', message, percent }));
+        post({ jobId, type: 'done', value: output }, [output.workbook]);
+        break;
+      }
+      case 'export': {
+        const workbook = buildRowsWorkbook(request.rows, request.sheetName);
+        post({ jobId, type: 'done', value: workbook }, [workbook]);
+        break;
+      }
+    }
+  } catch (error: any) {
+    console.error(error);
+    post({ jobId, type: 'error', message: error.message || 'Ocurrió un problema al procesar los archivos.' });
+  }
+};
+
+let queue = Promise.resolve();
+
+self.onmessage = (event: MessageEvent<{ jobId: number; request: WorkerRequest }>) => {
+  const { jobId, request } = event.data;
+  queue = queue.then(() => handle(jobId, request));
+};
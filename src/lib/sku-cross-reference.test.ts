@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { buildCrossReferenceMap, parseCrossReferenceRows } from '@/lib/sku-cross-reference';
+import { DEFAULT_SKU_NORMALIZATION } from '@/lib/sku-normalization';
+
+describe('parseCrossReferenceRows', () => {
+  it('finds the code and factor columns by synonym or system name', () => {
+    const rows = [
+      { 'Código WMS': 'CJ-A', 'Nro SAP': 'A', Factor: '12' },
+      { 'Código WMS': 'CJ-B', 'Nro SAP': 'B', Factor: 'x' },
+      { 'Código WMS': 'CJ-C', 'Nro SAP': '', Factor: '6' },
+    ];
+    expect(parseCrossReferenceRows(rows)).toEqual([
+      { wmsSku: 'CJ-A', sapSku: 'A', factor: 12 },
+      { wmsSku: 'CJ-B', sapSku: 'B', factor: 1 },
+    ]);
+  });
+
+  it('refuses a table without both codes', () => {
+    expect(() => parseCrossReferenceRows([{ 'SKU WMS': 'CJ-A', Factor: '12' }])).toThrow('SKU WMS');
+  });
+});
+
+describe('buildCrossReferenceMap', () => {
+  it('normalizes both codes and keeps the last duplicate', () => {
+    const map = buildCrossReferenceMap(
+      [{ wmsSku: 'cj-a', sapSku: '000A', factor: 12 }, { wmsSku: 'CJ-A', sapSku: '000A', factor: 6 }],
+      { ...DEFAULT_SKU_NORMALIZATION, uppercase: true, leadingZeros: 'strip' }
+    );
+    expect(Array.from(map)).toEqual([['CJ-A', { sapSku: 'A', factor: 6 }]]);
+  });
+});
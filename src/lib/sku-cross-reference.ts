@@ -0,0 +1,62 @@
+import { findColumn, getHeaders } from '@/lib/column-headers';
+import { detectNumberFormat, parseQuantity } from '@/lib/number-parser';
+import type { SpreadsheetRow } from '@/lib/reconcile';
+import { normalizeSku, type SkuNormalization } from '@/lib/sku-normalization';
+
+/** A WMS item code that is not the SAP material number. */
+export type SkuCrossReference = {
+  wmsSku: string;
+  sapSku: string;
+  /** SAP units per WMS unit, e.g. `12` when WMS counts boxes of 12. */
+  factor: number;
+};
+
+const WMS_SKU_SYNONYMS = ['sku wms', 'código wms', 'codigo wms', 'item wms', 'artículo wms', 'articulo wms', 'código cliente', 'codigo cliente'];
+const SAP_SKU_SYNONYMS = ['material sap', 'sku sap', 'código sap', 'codigo sap', 'material'];
+const FACTOR_SYNONYMS = ['factor', 'factor de conversión', 'factor de conversion', 'conversión', 'conversion'];
+
+/**
+ * Reads a cross-reference table uploaded as a spreadsheet with columns for the
+ * WMS code, the SAP material and, optionally, the conversion factor (default
+ * 1). Rows without both codes are ignored.
+ */
+export function parseCrossReferenceRows(rows: SpreadsheetRow[]): SkuCrossReference[] {
+  const headers = getHeaders(rows);
+  // Besides the exact synonyms, any header mentioning the system name.
+  const wmsHeader = findColumn(headers, WMS_SKU_SYNONYMS, { keywords: ['wms'] });
+  const sapHeader = findColumn(headers, SAP_SKU_SYNONYMS, { keywords: ['sap'], exclude: [wmsHeader] });
+  const factorHeader = findColumn(headers, FACTOR_SYNONYMS, { keywords: ['factor'] });
+  if (!wmsHeader || !sapHeader) {
+    throw new Error('La tabla de equivalencias debe tener columnas "SKU WMS" y "Material SAP".');
+  }
+
+  const factorFormat = detectNumberFormat(factorHeader ? rows.map(row => row[factorHeader]) : []);
+  return rows
+    .map(row => {
+      const factor = factorHeader ? parseQuantity(row[factorHeader], factorFormat) : 1;
+      return {
+        wmsSku: String(row[wmsHeader] ?? '').trim(),
+        sapSku: String(row[sapHeader] ?? '').trim(),
+        factor: isNaN(factor) || factor === 0 ? 1 : factor,
+      };
+    })
+    .filter(entry => entry.wmsSku && entry.sapSku);
+}
+
+/**
+ * Indexes the table by normalized WMS code, normalizing the SAP material with
+ * the same rules so mapped rows key like SAP ones. Later entries win over
+ * earlier duplicates.
+ */
+export function buildCrossReferenceMap(
+  entries: SkuCrossReference[],
+  rules?: SkuNormalization
+): Map<string, { sapSku: string; factor: number }> {
+  const map = new Map<string, { sapSku: string; factor: number }>();
+  entries.forEach(entry => {
+    const wmsSku = normalizeSku(entry.wmsSku, rules);
+    const sapSku = normalizeSku(entry.sapSku, rules);
+    if (wmsSku && sapSku) map.set(wmsSku, { sapSku, factor: entry.factor || 1 });
+  });
+  return map;
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SKU_NORMALIZATION, normalizeSku, parseAffixList } from '@/lib/sku-normalization';
+
+describe('normalizeSku', () => {
+  it('keeps the SKU as written by default, only trimming it', () => {
+    expect(normalizeSku(' 000123 ')).toBe('000123');
+    expect(normalizeSku(1234)).toBe('1234');
+    expect(normalizeSku(undefined)).toBe('');
+  });
+
+  it('strips or pads the leading zeros of material numbers', () => {
+    expect(normalizeSku('000000000001234567', { ...DEFAULT_SKU_NORMALIZATION, leadingZeros: 'strip' })).toBe('1234567');
+    expect(normalizeSku('000', { ...DEFAULT_SKU_NORMALIZATION, leadingZeros: 'strip' })).toBe('0');
+    expect(normalizeSku('1234567', { ...DEFAULT_SKU_NORMALIZATION, leadingZeros: 'pad' })).toBe('000000000001234567');
+    expect(normalizeSku('A-12', { ...DEFAULT_SKU_NORMALIZATION, leadingZeros: 'pad' })).toBe('A-12');
+  });
+
+  it('removes the first matching prefix and suffix, then separators, whatever their case', () => {
+    const rules = { ...DEFAULT_SKU_NORMALIZATION, uppercase: true, prefixes: ['MAT-', 'SKU-'], suffixes: ['-UN'], removeSeparators: true };
+    expect(normalizeSku('mat-12.34-un', rules)).toBe('1234');
+    expect(normalizeSku('sku-12 34', rules)).toBe('1234');
+  });
+});
+
+describe('parseAffixList', () => {
+  it('splits a comma-separated list and drops blanks', () => {
+    expect(parseAffixList('MAT-, ,SKU- ,')).toEqual(['MAT-', 'SKU-']);
+  });
+});
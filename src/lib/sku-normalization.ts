@@ -0,0 +1,65 @@
+export type LeadingZerosMode = 'keep' | 'strip' | 'pad';
+
+export type SkuNormalization = {
+  /**
+   * `strip` removes the zeros SAP pads material numbers with; `pad` adds them
+   * back to numeric SKUs up to `padLength` characters.
+   */
+  leadingZeros: LeadingZerosMode;
+  padLength: number;
+  /** Removed from the start of the SKU when present, e.g. `MAT-`. */
+  prefixes: string[];
+  /** Removed from the end of the SKU when present, e.g. `-UN`. */
+  suffixes: string[];
+  uppercase: boolean;
+  /** Removes spaces, dashes, dots, slashes and underscores. */
+  removeSeparators: boolean;
+};
+
+export const LEADING_ZEROS_LABELS: Record<LeadingZerosMode, string> = {
+  keep: 'Mantener',
+  strip: 'Quitar ceros a la izquierda',
+  pad: 'Completar con ceros',
+};
+
+/** SAP material numbers are 18 characters long. */
+export const DEFAULT_SKU_NORMALIZATION: SkuNormalization = {
+  leadingZeros: 'keep',
+  padLength: 18,
+  prefixes: [],
+  suffixes: [],
+  uppercase: false,
+  removeSeparators: false,
+};
+
+const SEPARATORS = /[\s\-_./]/g;
+
+/**
+ * Brings a SKU cell to the form used to key the analysis. Steps run in a fixed
+ * order (case, prefixes and suffixes, separators, zeros) so the same rules give
+ * the same key for SAP, WMS and adjustment rows. Only the first matching
+ * prefix and suffix are removed.
+ */
+export function normalizeSku(value: unknown, rules: SkuNormalization = DEFAULT_SKU_NORMALIZATION): string {
+  let sku = String(value ?? '').trim();
+  if (rules.uppercase) sku = sku.toUpperCase();
+
+  const prefix = rules.prefixes.find(item => item && sku.toUpperCase().startsWith(item.toUpperCase()));
+  if (prefix) sku = sku.slice(prefix.length);
+  const suffix = rules.suffixes.find(item => item && sku.toUpperCase().endsWith(item.toUpperCase()));
+  if (suffix) sku = sku.slice(0, sku.length - suffix.length);
+
+  if (rules.removeSeparators) sku = sku.replace(SEPARATORS, '');
+  sku = sku.trim();
+
+  if (rules.leadingZeros === 'strip') {
+    sku = sku.replace(/^0+(?=.)/, '');
+  } else if (rules.leadingZeros === 'pad' && /^\d+$/.test(sku)) {
+    sku = sku.padStart(rules.padLength, '0');
+  }
+  return sku;
+}
+
+/** Splits a comma-separated list typed by the user, dropping blanks. */
+export const parseAffixList = (text: string): string[] =>
+  text.split(',').map(item => item.trim()).filter(Boolean);
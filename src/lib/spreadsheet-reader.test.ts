@@ -0,0 +1,63 @@
+import * as XLSX from 'xlsx';
+import { describe, expect, it } from 'vitest';
+import { detectDataSheet, readSheetRows, readWorkbook, summarizeSheets } from '@/lib/spreadsheet-reader';
+
+/** Writes the sheets to an .xlsx file and reads it back as an upload would. */
+const workbookOf = (sheets: Record<string, unknown[][]>) => {
+  const workbook = XLSX.utils.book_new();
+  Object.entries(sheets).forEach(([name, table]) => {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(table, { cellDates: true }), name);
+  });
+  return readWorkbook(XLSX.write(workbook, { bookType: 'xlsx', type: 'array' }), 'stock.xlsx');
+};
+
+const SAP_HEADER = ['Material', 'Libre utilización', 'Almacén', 'Centro'];
+
+describe('sheet selection', () => {
+  const workbook = workbookOf({
+    Portada: [['Reporte de stock'], ['Generado por', 'SAP']],
+    Enero: [SAP_HEADER, ['A', '10', 'PT01', 'C1']],
+    Febrero: [SAP_HEADER.map(header => header.toUpperCase()), ['B', '5', 'PT01', 'C1']],
+    Otros: [['Material', 'Cantidad'], ['C', '1']],
+  });
+  const sheets = summarizeSheets(workbook, 'sap');
+
+  it('skips cover sheets when detecting the data sheet', () => {
+    expect(detectDataSheet(sheets)).toBe('Enero');
+    expect(sheets.map(sheet => sheet.recognized)).toEqual([false, true, true, false]);
+  });
+
+  it('concatenates sheets with the same headers under the first sheet\'s keys', () => {
+    const rows = readSheetRows(workbook, sheets, ['Enero', 'Febrero']);
+    expect(rows.map(row => [row.Material, row['Libre utilización'], row.__rowNum__])).toEqual([['A', '10', 1], ['B', '5', 1]]);
+  });
+
+  it('refuses sheets with different headers or an empty selection', () => {
+    expect(() => readSheetRows(workbook, sheets, ['Enero', 'Otros'])).toThrow("La hoja 'Otros' tiene encabezados distintos");
+    expect(() => readSheetRows(workbook, sheets, [])).toThrow('Selecciona al menos una hoja');
+  });
+});
+
+describe('header row detection', () => {
+  const workbook = workbookOf({
+    Stock: [
+      ['Lista de stock de almacén'],
+      ['Fecha', '31.12.2025'],
+      [],
+      SAP_HEADER,
+      ['A', '10', 'PT01', 'C1'],
+      ['B', '5', 'PT01', 'C1'],
+    ],
+  });
+
+  it('finds the header below title and metadata lines', () => {
+    const [sheet] = summarizeSheets(workbook, 'sap');
+    expect(sheet).toMatchObject({ headerRow: 3, headers: SAP_HEADER, rowCount: 2, recognized: true });
+    expect(readSheetRows(workbook, [sheet], ['Stock']).map(row => row.Material)).toEqual(['A', 'B']);
+  });
+
+  it('uses the header row given by the user', () => {
+    const [sheet] = summarizeSheets(workbook, 'sap', 1);
+    expect(sheet).toMatchObject({ headerRow: 1, headers: ['Fecha', '31.12.2025'], recognized: false });
+  });
+});
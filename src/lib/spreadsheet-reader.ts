@@ -0,0 +1,213 @@
+import * as XLSX from 'xlsx';
+import {
+  detectColumnMapping,
+  getHeaders,
+  missingColumnRoles,
+  standardizeHeader,
+  FILE_COLUMN_ROLES,
+  type FileKind,
+} from '@/lib/column-headers';
+import { parseDelimitedText, type Delimiter } from '@/lib/delimited-text';
+import type { SpreadsheetRow } from '@/lib/reconcile';
+
+export type SheetSummary = {
+  name: string;
+  /** Zero-based sheet row holding the headers (title and metadata rows are skipped). */
+  headerRow: number;
+  headers: string[];
+  /** Rows below the header row. */
+  rowCount: number;
+  /** Required roles of the file kind that the header row satisfies. */
+  matchedRoles: number;
+  /** Every required role was detected in the header row. */
+  recognized: boolean;
+};
+
+/** How many rows from the top of a sheet are considered as header candidates. */
+const HEADER_SCAN_ROWS = 20;
+
+/** Extensions accepted by the file inputs. */
+export const SUPPORTED_FILE_EXTENSIONS = ['.xlsx', '.xls', '.csv', '.tsv', '.txt'];
+
+const TEXT_FILE_EXTENSION = /\.(csv|tsv|txt)$/i;
+
+// Delimiter of the text export each workbook was read from.
+const textDelimiters = new WeakMap<XLSX.WorkBook, Delimiter>();
+
+/**
+ * Loads an Excel workbook, or a CSV/TSV/SAP list or fixed-width text export
+ * as a workbook with a single sheet, so every format goes through the same
+ * sheet and header-row detection. Text cells are kept as text.
+ */
+export function readWorkbook(data: ArrayBuffer, fileName: string): XLSX.WorkBook {
+  if (TEXT_FILE_EXTENSION.test(fileName)) {
+    const { rows, delimiter } = parseDelimitedText(data);
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), 'Datos');
+    if (delimiter) textDelimiters.set(workbook, delimiter);
+    return workbook;
+  }
+  return XLSX.read(data, { type: 'array', cellDates: true, raw: false });
+}
+
+/**
+ * Whether a workbook read by `readWorkbook` is a `;`-delimited text export:
+ * spreadsheets only write `;` where the comma is the decimal separator.
+ */
+export function isDecimalCommaExport(workbook: XLSX.WorkBook): boolean {
+  return textDelimiters.get(workbook) === ';';
+}
+
+const ZERO_PADDED_CODE = /^0\d+$/;
+
+/**
+ * Numeric cells come as their value rather than as the text Excel shows: a
+ * `#,##0` cell holding 1200 displays `1,200`, which would read as 1.2 in a
+ * decimal-comma file. Codes such as `000123` are numbers formatted with
+ * leading zeros, so those cells are turned into their displayed text first.
+ */
+const readRows = (worksheet: XLSX.WorkSheet, range?: number): SpreadsheetRow[] => {
+  Object.keys(worksheet).forEach(address => {
+    const cell = worksheet[address] as XLSX.CellObject;
+    if (address.startsWith('!') || cell.t !== 'n' || !cell.w || !ZERO_PADDED_CODE.test(cell.w)) return;
+    cell.t = 's';
+    cell.v = cell.w;
+  });
+  // Dates come as the `Date` of the cell (the workbook is read with
+  // `cellDates`), not as text in the US format Excel displays them with.
+  return XLSX.utils.sheet_to_json<SpreadsheetRow>(worksheet, { raw: true, range });
+};
+
+/**
+ * Rows of the first sheet, for reference tables (prices, equivalences,
+ * conversions) whose headers are on the first row.
+ */
+export function readFirstSheetRows(workbook: XLSX.WorkBook): SpreadsheetRow[] {
+  const [firstSheet] = workbook.SheetNames;
+  return firstSheet ? readRows(workbook.Sheets[firstSheet]) : [];
+}
+
+const toHeaders = (cells: unknown[]): string[] => cells.map(cell => String(cell ?? '').trim()).filter(Boolean);
+
+// Required roles weigh more than optional ones so a metadata line that happens
+// to contain "Centro" does not outscore the real header row.
+const scoreHeaderRow = (headers: string[], kind: FileKind): number => {
+  if (headers.length < 2) return 0;
+  const { mapping } = detectColumnMapping(headers, kind);
+  const { required, optional } = FILE_COLUMN_ROLES[kind];
+  return required.filter(role => mapping[role]).length * 2 + optional.filter(role => mapping[role]).length;
+};
+
+/**
+ * Finds the header row of a sheet by scoring its first rows against the column
+ * synonyms of `kind`, so SAP spool exports and WMS reports with title, date and
+ * user lines above the table load as-is. `headerRow` forces a given row.
+ */
+const readHeaderRow = (worksheet: XLSX.WorkSheet, kind: FileKind, headerRow?: number): { headerRow: number; headers: string[]; rowCount: number } => {
+  if (!worksheet['!ref']) return { headerRow: 0, headers: [], rowCount: 0 };
+  const range = XLSX.utils.decode_range(worksheet['!ref']);
+  const firstRow = headerRow ?? range.s.r;
+  const lastRow = headerRow ?? Math.min(range.s.r + HEADER_SCAN_ROWS - 1, range.e.r);
+  const candidates = XLSX.utils.sheet_to_json<unknown[]>(worksheet, {
+    header: 1,
+    raw: false,
+    blankrows: true,
+    range: { s: { r: firstRow, c: range.s.c }, e: { r: lastRow, c: range.e.c } },
+  });
+
+  let best = { index: 0, score: 0 };
+  candidates.forEach((cells, index) => {
+    const score = scoreHeaderRow(toHeaders(cells), kind);
+    if (score > best.score) best = { index, score };
+  });
+  // Without any recognizable row, fall back to the first non-empty one.
+  if (best.score === 0) {
+    const firstFilled = candidates.findIndex(cells => toHeaders(cells).length > 0);
+    best.index = Math.max(firstFilled, 0);
+  }
+
+  const detectedRow = firstRow + best.index;
+  return {
+    headerRow: detectedRow,
+    headers: toHeaders(candidates[best.index] ?? []),
+    rowCount: Math.max(range.e.r - detectedRow, 0),
+  };
+};
+
+/**
+ * Describes every sheet of the workbook against the columns `kind` needs.
+ * `headerRow` (zero-based) overrides the header-row detection on all sheets.
+ */
+export function summarizeSheets(workbook: XLSX.WorkBook, kind: FileKind, headerRow?: number): SheetSummary[] {
+  return workbook.SheetNames.map(name => {
+    const { headerRow: detectedRow, headers, rowCount } = readHeaderRow(workbook.Sheets[name], kind, headerRow);
+    const { mapping } = detectColumnMapping(headers, kind);
+    const missing = missingColumnRoles(mapping, kind).length;
+    return {
+      name,
+      headerRow: detectedRow,
+      headers,
+      rowCount,
+      matchedRoles: FILE_COLUMN_ROLES[kind].required.length - missing,
+      recognized: headers.length > 0 && missing === 0,
+    };
+  });
+}
+
+/**
+ * Picks the sheet holding the data: the first one with a recognizable header
+ * row, otherwise the one matching most required columns, otherwise the first
+ * sheet with rows. Cover sheets placed before the data are skipped this way.
+ */
+export function detectDataSheet(sheets: SheetSummary[]): string | undefined {
+  const recognized = sheets.find(sheet => sheet.recognized);
+  if (recognized) return recognized.name;
+  const best = sheets.reduce<SheetSummary | undefined>(
+    (current, sheet) => (sheet.matchedRoles > (current?.matchedRoles ?? 0) ? sheet : current),
+    undefined
+  );
+  return best?.name ?? sheets.find(sheet => sheet.rowCount > 0)?.name;
+}
+
+/** Whether two sheets can be concatenated: same headers, ignoring case and spacing. */
+export function haveSameHeaders(a: SheetSummary, b: SheetSummary): boolean {
+  return a.headers.length === b.headers.length &&
+    a.headers.every((header, index) => standardizeHeader(header) === standardizeHeader(b.headers[index]));
+}
+
+const renameKeys = (row: SpreadsheetRow, keyOf: Map<string, string>): SpreadsheetRow => {
+  const keys = Object.keys(row);
+  if (keys.every(key => keyOf.get(standardizeHeader(key)) === key)) return row;
+  const renamed: SpreadsheetRow = {};
+  keys.forEach(key => { renamed[keyOf.get(standardizeHeader(key)) ?? key] = row[key]; });
+  Object.defineProperty(renamed, '__rowNum__', { value: row.__rowNum__, enumerable: false });
+  return renamed;
+};
+
+/**
+ * Converts the selected sheets to rows, concatenating them in the given order.
+ * All sheets must share the header row of the first one.
+ */
+export function readSheetRows(workbook: XLSX.WorkBook, sheets: SheetSummary[], sheetNames: string[]): SpreadsheetRow[] {
+  if (sheetNames.length === 0) throw new Error('Selecciona al menos una hoja del archivo.');
+  const selected = sheetNames.map(name => {
+    const sheet = sheets.find(item => item.name === name);
+    if (!sheet || !workbook.Sheets[name]) throw new Error(`La hoja de cálculo '${name}' no se encontró o está vacía.`);
+    return sheet;
+  });
+  const [first] = selected;
+  const mismatched = selected.find(sheet => !haveSameHeaders(first, sheet));
+  if (mismatched) {
+    throw new Error(`La hoja '${mismatched.name}' tiene encabezados distintos a '${first.name}' y no se puede concatenar.`);
+  }
+
+  const [firstRows, ...otherRows] = selected.map(sheet => readRows(workbook.Sheets[sheet.name], sheet.headerRow));
+  // Headers may differ in case or spacing between sheets; every row takes the
+  // keys of the first sheet so a column mapping reads all of them.
+  const keyOf = new Map(getHeaders(firstRows).map(header => [standardizeHeader(header), header]));
+  const rows = firstRows.concat(...otherRows.map(sheetRows => sheetRows.map(row => renameKeys(row, keyOf))));
+  if (rows.length === 0) {
+    throw new Error('El archivo no contiene datos o está en un formato incorrecto.');
+  }
+  return rows;
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { classifyDifference, findToleranceRule, isWithinTolerance, type ToleranceRule } from '@/lib/tolerances';
+
+describe('findToleranceRule', () => {
+  const rules: ToleranceRule[] = [
+    { scope: 'todos', value: '', maxUnits: 1 },
+    { scope: 'centro', value: 'c1', maxUnits: 2 },
+    { scope: 'grupo', value: 'g1', maxPercent: 5 },
+  ];
+
+  it('prefers the material group, then the centro, then the rule for all', () => {
+    expect(findToleranceRule(rules, 'C1', 'G1')).toBe(rules[2]);
+    expect(findToleranceRule(rules, 'C1', 'G2')).toBe(rules[1]);
+    expect(findToleranceRule(rules, 'C2', '')).toBe(rules[0]);
+    expect(findToleranceRule([], 'C1', 'G1')).toBeUndefined();
+  });
+});
+
+describe('isWithinTolerance', () => {
+  it('requires every threshold it can check', () => {
+    expect(isWithinTolerance({ scope: 'todos', value: '', maxUnits: 2, maxPercent: 5 }, -2, 100)).toBe(true);
+    expect(isWithinTolerance({ scope: 'todos', value: '', maxUnits: 2, maxPercent: 1 }, -2, 100)).toBe(false);
+  });
+
+  it('skips a value limit without a price and accepts nothing without thresholds', () => {
+    expect(isWithinTolerance({ scope: 'todos', value: '', maxUnits: 5, maxValue: 1 }, 3, 10)).toBe(true);
+    expect(isWithinTolerance({ scope: 'todos', value: '', maxUnits: 5, maxValue: 1 }, 3, 10, 2)).toBe(false);
+    expect(isWithinTolerance({ scope: 'todos', value: '', maxValue: 1 }, 3, 10)).toBe(false);
+  });
+});
+
+describe('classifyDifference', () => {
+  const rule: ToleranceRule = { scope: 'todos', value: '', maxUnits: 1 };
+
+  it('classifies lines by presence, difference and tolerance', () => {
+    expect(classifyDifference({ inSap: true, inWms: true, difference: 0, sapQty: 5 })).toBe('OK');
+    expect(classifyDifference({ inSap: true, inWms: true, difference: -1, sapQty: 5, rule })).toBe('Dentro de tolerancia');
+    expect(classifyDifference({ inSap: true, inWms: true, difference: 2, sapQty: 5, rule })).toBe('Sobrante');
+    expect(classifyDifference({ inSap: true, inWms: true, difference: -2, sapQty: 5, rule })).toBe('Faltante');
+    expect(classifyDifference({ inSap: true, inWms: false, difference: -5, sapQty: 5, rule })).toBe('Solo SAP');
+    expect(classifyDifference({ inSap: false, inWms: true, difference: 1, sapQty: 0, rule })).toBe('Solo WMS');
+  });
+});
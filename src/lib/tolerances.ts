@@ -0,0 +1,93 @@
+export type DifferenceStatus =
+  | 'OK'
+  | 'Dentro de tolerancia'
+  | 'Explicada por traslado'
+  | 'Sobrante'
+  | 'Faltante'
+  | 'Solo SAP'
+  | 'Solo WMS';
+
+/** Display and export order of the statuses. */
+export const DIFFERENCE_STATUSES: DifferenceStatus[] = ['OK', 'Dentro de tolerancia', 'Explicada por traslado', 'Sobrante', 'Faltante', 'Solo SAP', 'Solo WMS'];
+
+export type ToleranceScope = 'todos' | 'centro' | 'grupo';
+
+export type ToleranceRule = {
+  scope: ToleranceScope;
+  /** Centro or material group the rule applies to; ignored for `todos`. */
+  value: string;
+  /** Largest accepted difference in units. */
+  maxUnits?: number;
+  /** Largest accepted difference as a percentage of the SAP stock. */
+  maxPercent?: number;
+  /** Largest accepted difference in currency; only checked when the material has a price. */
+  maxValue?: number;
+};
+
+export const TOLERANCE_SCOPE_LABELS: Record<ToleranceScope, string> = {
+  todos: 'Todos',
+  centro: 'Centro',
+  grupo: 'Grupo de artículos',
+};
+
+const normalizeScopeValue = (value: unknown): string => String(value ?? '').trim().toUpperCase();
+
+/**
+ * Picks the rule for a line: a material group rule wins over a centro rule,
+ * which wins over a `todos` rule. Within a scope the first rule applies.
+ */
+export function findToleranceRule(rules: ToleranceRule[], centro: string, grupo: string): ToleranceRule | undefined {
+  const matches = (scope: ToleranceScope, value: string) =>
+    rules.find(rule => rule.scope === scope && (scope === 'todos' || (value !== '' && normalizeScopeValue(rule.value) === value)));
+  return matches('grupo', normalizeScopeValue(grupo)) ??
+    matches('centro', normalizeScopeValue(centro)) ??
+    matches('todos', '');
+}
+
+/**
+ * Whether a difference stays within every threshold the rule sets. Thresholds
+ * that cannot be checked (a value limit without a price) are skipped; a rule
+ * with nothing to check accepts no difference.
+ */
+export function isWithinTolerance(rule: ToleranceRule, difference: number, sapQty: number, unitPrice?: number): boolean {
+  const checks: boolean[] = [];
+  const absolute = Math.abs(difference);
+  if (rule.maxUnits !== undefined) checks.push(absolute <= rule.maxUnits);
+  if (rule.maxPercent !== undefined && sapQty !== 0) checks.push(absolute <= Math.abs(sapQty) * rule.maxPercent / 100);
+  if (rule.maxValue !== undefined && unitPrice !== undefined) checks.push(absolute * unitPrice <= rule.maxValue);
+  return checks.length > 0 && checks.every(Boolean);
+}
+
+type ClassifyInput = {
+  inSap: boolean;
+  inWms: boolean;
+  difference: number;
+  sapQty: number;
+  rule?: ToleranceRule;
+  unitPrice?: number;
+  /** Staged transfer stock of the line; only considered when `transferExplains` is set. */
+  transitQty?: number;
+  transferExplains?: boolean;
+};
+
+/**
+ * Status of an analysis line; `difference` is WMS minus SAP. Staged transfer
+ * stock is checked first because it often leaves a line in one system only.
+ */
+export function classifyDifference({
+  inSap,
+  inWms,
+  difference,
+  sapQty,
+  rule,
+  unitPrice,
+  transitQty = 0,
+  transferExplains = false,
+}: ClassifyInput): DifferenceStatus {
+  if (transferExplains && difference !== 0 && Math.abs(difference) <= Math.abs(transitQty)) return 'Explicada por traslado';
+  if (inSap && !inWms) return 'Solo SAP';
+  if (inWms && !inSap) return 'Solo WMS';
+  if (difference === 0) return 'OK';
+  if (rule && isWithinTolerance(rule, difference, sapQty, unitPrice)) return 'Dentro de tolerancia';
+  return difference > 0 ? 'Sobrante' : 'Faltante';
+}
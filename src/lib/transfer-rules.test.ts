@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { buildTransferMatcher, DEFAULT_TRANSFER_RULE } from '@/lib/transfer-rules';
+
+describe('buildTransferMatcher', () => {
+  it('matches area prefixes and location patterns, ignoring case and spaces', () => {
+    const isStaged = buildTransferMatcher({ areaPrefixes: ['area stage', 'DOCK'], locationPatterns: ['7*', 'd-??'], explainsDifference: false });
+    expect(isStaged('AREA STAGE 1', '701')).toBe(true);
+    expect(isStaged(' dock ', 'D-12')).toBe(true);
+    expect(isStaged('DOCK', 'D-123')).toBe(false);
+    expect(isStaged('PICKING', '701')).toBe(false);
+  });
+
+  it('treats regular expression characters in patterns literally', () => {
+    const isStaged = buildTransferMatcher({ ...DEFAULT_TRANSFER_RULE, locationPatterns: ['7.1'] });
+    expect(isStaged('AREA STAGE', '7.1')).toBe(true);
+    expect(isStaged('AREA STAGE', '701')).toBe(false);
+  });
+
+  it('matches nothing without prefixes or patterns', () => {
+    expect(buildTransferMatcher({ ...DEFAULT_TRANSFER_RULE, areaPrefixes: [] })('AREA STAGE', '701')).toBe(false);
+    expect(buildTransferMatcher({ ...DEFAULT_TRANSFER_RULE, locationPatterns: [' '] })('AREA STAGE', '701')).toBe(false);
+  });
+});
@@ -0,0 +1,43 @@
+/** Identifies WMS stock staged for transfer (reported as "Stock para Traslado"). */
+export type TransferStockRule = {
+  /** WMS areas holding staged stock, matched at the start of the area name. */
+  areaPrefixes: string[];
+  /** Staging locations; `*` matches any characters and `?` exactly one. */
+  locationPatterns: string[];
+  /**
+   * Lines whose difference is fully covered by staged stock get the status
+   * "Explicada por traslado" instead of a discrepancy.
+   */
+  explainsDifference: boolean;
+};
+
+export const DEFAULT_TRANSFER_RULE: TransferStockRule = {
+  areaPrefixes: ['AREA STAGE'],
+  locationPatterns: ['7*'],
+  explainsDifference: false,
+};
+
+const patternToRegExp = (pattern: string): RegExp => {
+  const source = pattern
+    .trim()
+    .toUpperCase()
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.');
+  return new RegExp(`^${source}$`);
+};
+
+/**
+ * Compiles the rule into a test on a WMS row's area and location. Both must
+ * match; an empty list of prefixes or patterns matches nothing.
+ */
+export function buildTransferMatcher(rule: TransferStockRule): (area: string, ubicacion: string) => boolean {
+  const prefixes = rule.areaPrefixes.map(prefix => prefix.trim().toUpperCase()).filter(Boolean);
+  const patterns = rule.locationPatterns.filter(pattern => pattern.trim()).map(patternToRegExp);
+  return (area, ubicacion) => {
+    const normalizedArea = area.trim().toUpperCase();
+    const normalizedUbicacion = ubicacion.trim().toUpperCase();
+    return prefixes.some(prefix => normalizedArea.startsWith(prefix)) &&
+      patterns.some(pattern => pattern.test(normalizedUbicacion));
+  };
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { buildUnitConverter, parseUnitConversionRows } from '@/lib/unit-conversion';
+
+describe('parseUnitConversionRows', () => {
+  it('reads SAP MARM-style headers and drops incomplete rows', () => {
+    const rows = [
+      { Material: '100', 'UM alternativa': 'cj', Numerador: '12', 'UM base': 'un' },
+      { Material: '200', 'UM alternativa': 'PAL', Numerador: '0', 'UM base': 'UN' },
+      { Material: '', 'UM alternativa': 'CJ', Numerador: '6', 'UM base': 'UN' },
+    ];
+    expect(parseUnitConversionRows(rows)).toEqual([{ sku: '100', unit: 'CJ', baseUnit: 'UN', factor: 12 }]);
+  });
+
+  it('refuses a table without the four columns', () => {
+    expect(() => parseUnitConversionRows([{ Material: '100', Unidad: 'CJ', Factor: '12' }])).toThrow('Unidad base');
+  });
+});
+
+describe('buildUnitConverter', () => {
+  it('converts in either direction and knows the base unit of each material', () => {
+    const converter = buildUnitConverter([{ sku: '100', unit: 'CJ', baseUnit: 'UN', factor: 12 }]);
+    expect(converter.baseUnitOf('100')).toBe('UN');
+    expect(converter.factor('100', 'CJ', 'UN')).toBe(12);
+    expect(converter.factor('100', 'UN', 'CJ')).toBe(1 / 12);
+    expect(converter.factor('100', 'UN', 'UN')).toBe(1);
+    expect(converter.factor('100', 'PAL', 'UN')).toBeUndefined();
+  });
+});
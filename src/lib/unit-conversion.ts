@@ -0,0 +1,81 @@
+import { findColumn, getHeaders } from '@/lib/column-headers';
+import { detectNumberFormat, parseQuantity } from '@/lib/number-parser';
+import type { SpreadsheetRow } from '@/lib/reconcile';
+import { normalizeSku, type SkuNormalization } from '@/lib/sku-normalization';
+
+/** One alternative unit of a material, as in SAP's MARM table: 1 `unit` = `factor` `baseUnit`. */
+export type UnitConversion = {
+  sku: string;
+  unit: string;
+  baseUnit: string;
+  factor: number;
+};
+
+export const normalizeUnit = (value: unknown): string => String(value ?? '').trim().toUpperCase();
+
+const SKU_SYNONYMS = ['material', 'sku', 'material sap', 'código', 'codigo'];
+const UNIT_SYNONYMS = ['unidad alternativa', 'um alternativa', 'uma', 'unidad', 'um'];
+const BASE_UNIT_SYNONYMS = ['unidad base', 'um base', 'umb', 'base unit'];
+const FACTOR_SYNONYMS = ['factor', 'factor de conversión', 'factor de conversion', 'numerador', 'contenido'];
+
+/**
+ * Reads a conversion table uploaded as a spreadsheet with columns Material,
+ * Unidad, Unidad base and Factor. Rows missing a code, a unit or a positive
+ * factor are ignored.
+ */
+export function parseUnitConversionRows(rows: SpreadsheetRow[]): UnitConversion[] {
+  const headers = getHeaders(rows);
+  const baseUnitHeader = findColumn(headers, BASE_UNIT_SYNONYMS);
+  const skuHeader = findColumn(headers, SKU_SYNONYMS, { exclude: [baseUnitHeader] });
+  // "Numerador" contains "um", so the factor is claimed before the unit.
+  const factorHeader = findColumn(headers, FACTOR_SYNONYMS, { exclude: [baseUnitHeader, skuHeader] });
+  const unitHeader = findColumn(headers, UNIT_SYNONYMS, { exclude: [baseUnitHeader, skuHeader, factorHeader] });
+  if (!skuHeader || !unitHeader || !baseUnitHeader || !factorHeader) {
+    throw new Error('La tabla de conversión debe tener columnas "Material", "Unidad", "Unidad base" y "Factor".');
+  }
+
+  const factorFormat = detectNumberFormat(rows.map(row => row[factorHeader]));
+  return rows
+    .map(row => ({
+      sku: String(row[skuHeader] ?? '').trim(),
+      unit: normalizeUnit(row[unitHeader]),
+      baseUnit: normalizeUnit(row[baseUnitHeader]),
+      factor: parseQuantity(row[factorHeader], factorFormat),
+    }))
+    .filter(entry => entry.sku && entry.unit && entry.baseUnit && entry.factor > 0);
+}
+
+export type UnitConverter = {
+  /** Base unit declared for the material in the table, if any. */
+  baseUnitOf: (sku: string) => string | undefined;
+  /**
+   * Multiplier taking a quantity of `sku` from `unit` to `targetUnit`, using
+   * the entry in either direction; `undefined` when the table has neither.
+   */
+  factor: (sku: string, unit: string, targetUnit: string) => number | undefined;
+};
+
+/** Indexes the table by normalized material so lookups match the analysis keys. */
+export function buildUnitConverter(entries: UnitConversion[], rules?: SkuNormalization): UnitConverter {
+  const factors = new Map<string, number>();
+  const baseUnits = new Map<string, string>();
+  entries.forEach(entry => {
+    const sku = normalizeSku(entry.sku, rules);
+    const unit = normalizeUnit(entry.unit);
+    const baseUnit = normalizeUnit(entry.baseUnit);
+    if (!sku || !unit || !baseUnit || !(entry.factor > 0)) return;
+    factors.set(`${sku}|${unit}|${baseUnit}`, entry.factor);
+    if (!baseUnits.has(sku)) baseUnits.set(sku, baseUnit);
+  });
+
+  return {
+    baseUnitOf: sku => baseUnits.get(sku),
+    factor: (sku, unit, targetUnit) => {
+      if (unit === targetUnit) return 1;
+      const direct = factors.get(`${sku}|${unit}|${targetUnit}`);
+      if (direct !== undefined) return direct;
+      const inverse = factors.get(`${sku}|${targetUnit}|${unit}`);
+      return inverse !== undefined ? 1 / inverse : undefined;
+    },
+  };
+}
@@ -0,0 +1,46 @@
+import * as XLSX from 'xlsx';
+import { describe, expect, it } from 'vitest';
+import { formatTableSheet, freezeHeaderRows, toSubtotaledSheet } from '@/lib/workbook-format';
+
+describe('formatTableSheet', () => {
+  it('formats numeric columns by header, sizes the columns and adds an autofilter', () => {
+    const worksheet = formatTableSheet(XLSX.utils.json_to_sheet([
+      { SKU: 'A', 'Stock SAP': 1200, Diferencia: -3, 'Valor SAP': 10.5, 'Exactitud (%)': 99.5 },
+    ]));
+    expect(['B2', 'C2', 'D2', 'E2'].map(address => worksheet[address].z)).toEqual([
+      '#,##0',
+      '[Color10]+#,##0;[Red]-#,##0;0',
+      '#,##0.00',
+      '0.00" %"',
+    ]);
+    expect(worksheet.A2.z).toBeUndefined();
+    expect(worksheet['!cols']![1]).toEqual({ wch: 11 });
+    expect(worksheet['!autofilter']).toEqual({ ref: 'A1:E2' });
+  });
+});
+
+describe('toSubtotaledSheet', () => {
+  it('adds SUBTOTAL formulas after each group and a grand total', () => {
+    const worksheet = toSubtotaledSheet(
+      [{ Centro: 'C1', Cantidad: 2 }, { Centro: 'C2', Cantidad: 5 }, { Centro: 'C1', Cantidad: 3 }],
+      { groupBy: 'Centro', sumColumns: ['Cantidad'], subtotalLabel: centro => `Subtotal ${centro}`, totalLabel: 'Total' }
+    );
+    const rows = XLSX.utils.sheet_to_json<unknown[]>(worksheet, { header: 1 });
+    expect(rows).toEqual([['Centro', 'Cantidad'], ['C1', 2], ['C1', 3], ['Subtotal C1', 5], ['C2', 5], ['Subtotal C2', 5], ['Total', 10]]);
+    expect([worksheet.B4.f, worksheet.B6.f, worksheet.B7.f]).toEqual(['SUBTOTAL(9,B2:B3)', 'SUBTOTAL(9,B5:B5)', 'SUBTOTAL(9,B2:B6)']);
+  });
+});
+
+describe('freezeHeaderRows', () => {
+  it('freezes the first row of the given sheets only', () => {
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['Portada']]), 'Portada');
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['SKU'], ['A']]), 'Datos');
+    const data = freezeHeaderRows(XLSX.write(workbook, { bookType: 'xlsx', type: 'array' }), [1]);
+
+    const zip = XLSX.CFB.read(new Uint8Array(data), { type: 'array' });
+    const sheetXml = (index: number) => new TextDecoder().decode(XLSX.CFB.find(zip, `/xl/worksheets/sheet${index}.xml`)!.content as Uint8Array);
+    expect(sheetXml(1)).not.toContain('<pane');
+    expect(sheetXml(2)).toContain('<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>');
+  });
+});
@@ -0,0 +1,150 @@
+import * as XLSX from 'xlsx';
+
+/*
+ * Presentation of the exported sheets. The community build of SheetJS writes
+ * number formats, column widths and autofilters but no cell styles or frozen
+ * panes, so differences are colored through their number format and the
+ * header row is frozen by patching the written sheet XML.
+ */
+
+const QUANTITY_FORMAT = '#,##0';
+const DECIMAL_FORMAT = '#,##0.00';
+// Palette color 10 is a dark green that stays readable on white, unlike [Green].
+const DIFFERENCE_FORMAT = '[Color10]+#,##0;[Red]-#,##0;0';
+const DECIMAL_DIFFERENCE_FORMAT = '[Color10]+#,##0.00;[Red]-#,##0.00;0.00';
+const PERCENT_FORMAT = '0.00" %"';
+
+const MIN_COLUMN_WIDTH = 8;
+const MAX_COLUMN_WIDTH = 50;
+/** Rows measured to size the columns; enough to be representative on large sheets. */
+const WIDTH_SAMPLE_ROWS = 2000;
+
+type ColumnKind = 'text' | 'rowNumber' | 'quantity' | 'amount' | 'difference' | 'percent';
+
+const columnKind = (header: string, numeric: boolean): ColumnKind => {
+  if (!numeric) return 'text';
+  if (header === 'Fila') return 'rowNumber';
+  if (header.endsWith('(%)')) return 'percent';
+  if (header.includes('Diferencia') || header.includes('Residual')) return 'difference';
+  if (header.startsWith('Valor')) return 'amount';
+  return 'quantity';
+};
+
+const numberFormatFor = (kind: ColumnKind, decimals: boolean): string | undefined => {
+  switch (kind) {
+    case 'quantity': return decimals ? DECIMAL_FORMAT : QUANTITY_FORMAT;
+    case 'amount': return DECIMAL_FORMAT;
+    case 'difference': return decimals ? DECIMAL_DIFFERENCE_FORMAT : DIFFERENCE_FORMAT;
+    case 'percent': return PERCENT_FORMAT;
+    default: return undefined;
+  }
+};
+
+// Thousands separators and the sign add about one character per three digits.
+const displayWidth = (cell: XLSX.CellObject): number => {
+  const text = String(cell.v ?? '');
+  return cell.t === 'n' ? text.length + Math.ceil(text.length / 3) : text.length;
+};
+
+/**
+ * Sizes the columns of a sheet whose first row holds the headers, gives its
+ * numeric columns thousands separators (differences in green or red by sign)
+ * and adds an autofilter over the table.
+ */
+export function formatTableSheet(worksheet: XLSX.WorkSheet): XLSX.WorkSheet {
+  if (!worksheet['!ref']) return worksheet;
+  const range = XLSX.utils.decode_range(worksheet['!ref']);
+  const cols: XLSX.ColInfo[] = [];
+  for (let c = range.s.c; c <= range.e.c; c++) {
+    const header = String(worksheet[XLSX.utils.encode_cell({ r: range.s.r, c })]?.v ?? '');
+    const cells: XLSX.CellObject[] = [];
+    for (let r = range.s.r + 1; r <= range.e.r; r++) {
+      const cell = worksheet[XLSX.utils.encode_cell({ r, c })] as XLSX.CellObject | undefined;
+      if (cell) cells.push(cell);
+    }
+    const numbers = cells.filter(cell => cell.t === 'n');
+    const decimals = numbers.some(cell => !Number.isInteger(cell.v));
+    const format = numberFormatFor(columnKind(header, numbers.length > 0), decimals);
+    if (format) numbers.forEach(cell => { cell.z = format; });
+
+    const width = cells.slice(0, WIDTH_SAMPLE_ROWS).reduce((max, cell) => Math.max(max, displayWidth(cell)), header.length);
+    cols.push({ wch: Math.min(Math.max(width + 2, MIN_COLUMN_WIDTH), MAX_COLUMN_WIDTH) });
+  }
+  worksheet['!cols'] = cols;
+  worksheet['!autofilter'] = { ref: XLSX.utils.encode_range(range) };
+  return worksheet;
+}
+
+type SubtotalOptions<T> = {
+  /** Column the rows are grouped by, in order of first appearance. */
+  groupBy: keyof T & string;
+  /** Columns summed on the subtotal and total rows. */
+  sumColumns: Array<keyof T & string>;
+  subtotalLabel: (group: string) => string;
+  totalLabel: string;
+};
+
+/**
+ * Converts rows to a sheet with a subtotal row after each group and a grand
+ * total at the end. The totals are `SUBTOTAL(9, …)` formulas, so they follow
+ * the autofilter and the grand total does not count the subtotals twice.
+ */
+export function toSubtotaledSheet<T extends object>(rows: T[], options: SubtotalOptions<T>): XLSX.WorkSheet {
+  const { groupBy, sumColumns, subtotalLabel, totalLabel } = options;
+  if (rows.length === 0) return XLSX.utils.json_to_sheet(rows);
+  const header = Object.keys(rows[0]);
+  const groups = new Map<string, T[]>();
+  rows.forEach(row => {
+    const group = String(row[groupBy] ?? '');
+    const items = groups.get(group) ?? [];
+    items.push(row);
+    groups.set(group, items);
+  });
+
+  const ordered: object[] = [];
+  const totalRows: Array<{ index: number; first: number; last: number; sums: Map<string, number> }> = [];
+  const sumOf = (items: T[]) => new Map(sumColumns.map(column => [column, items.reduce((sum, row) => sum + (Number(row[column]) || 0), 0)]));
+  groups.forEach((items, group) => {
+    const first = ordered.length;
+    items.forEach(row => ordered.push(row));
+    totalRows.push({ index: ordered.length, first, last: ordered.length - 1, sums: sumOf(items) });
+    ordered.push({ [groupBy]: subtotalLabel(group) });
+  });
+  totalRows.push({ index: ordered.length, first: 0, last: ordered.length - 1, sums: sumOf(rows) });
+  ordered.push({ [groupBy]: totalLabel });
+
+  const worksheet = XLSX.utils.json_to_sheet(ordered, { header });
+  // Data starts on the second sheet row, below the headers.
+  totalRows.forEach(({ index, first, last, sums }) => {
+    sumColumns.forEach(column => {
+      const c = header.indexOf(column);
+      if (c < 0) return;
+      const columnName = XLSX.utils.encode_col(c);
+      worksheet[XLSX.utils.encode_cell({ r: index + 1, c })] = {
+        t: 'n',
+        v: Math.round(sums.get(column)! * 100) / 100,
+        f: `SUBTOTAL(9,${columnName}${first + 2}:${columnName}${last + 2})`,
+      };
+    });
+  });
+  return worksheet;
+}
+
+const FROZEN_HEADER_PANE = '<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>';
+
+/**
+ * Freezes the first row of the given sheets (zero-based, in workbook order)
+ * in a workbook written by SheetJS as `.xlsx`.
+ */
+export function freezeHeaderRows(data: ArrayBuffer, sheetIndexes: number[]): ArrayBuffer {
+  if (sheetIndexes.length === 0) return data;
+  const zip = XLSX.CFB.read(new Uint8Array(data), { type: 'array' });
+  sheetIndexes.forEach(index => {
+    const entry = XLSX.CFB.find(zip, `/xl/worksheets/sheet${index + 1}.xml`);
+    if (!entry) return;
+    const xml = new TextDecoder().decode(entry.content as Uint8Array);
+    entry.content = new TextEncoder().encode(xml.replace(/<sheetView ([^>]*)\/>/, `<sheetView $1>${FROZEN_HEADER_PANE}</sheetView>`));
+  });
+  const output = XLSX.CFB.write(zip, { fileType: 'zip', type: 'array' }) as Uint8Array;
+  return output.buffer.slice(output.byteOffset, output.byteOffset + output.byteLength) as ArrayBuffer;
+}
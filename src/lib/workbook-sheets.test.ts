@@ -0,0 +1,11 @@
+import { describe, expect, it } from 'vitest';
+import { DIFFERENCE_STATUSES } from '@/lib/tolerances';
+import { WORKBOOK_SHEETS } from '@/lib/workbook-sheets';
+
+describe('WORKBOOK_SHEETS', () => {
+  it('are valid Excel sheet names, distinct from each other and from the status sheets', () => {
+    const names = [...Object.values(WORKBOOK_SHEETS), ...DIFFERENCE_STATUSES];
+    names.forEach(name => expect(name).toMatch(/^[^:\\/?*[\]]{1,31}$/));
+    expect(new Set(names.map(name => name.toLowerCase())).size).toBe(names.length);
+  });
+});
@@ -0,0 +1,11 @@
+/** Titles of the fixed sheets of `analisis_stock.xlsx`. */
+export const WORKBOOK_SHEETS = {
+  cover: 'Portada',
+  analysis: 'Análisis de Stock',
+  statusSummary: 'Resumen por Estado',
+  accuracy: 'KPIs',
+  differences: 'Diferencias por Centro',
+  dataQuality: 'Calidad de datos',
+  unmappedWms: 'WMS sin equivalencia',
+  lots: 'Análisis por Lote',
+} as const;